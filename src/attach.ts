@@ -0,0 +1,121 @@
+import { chromium, Browser, BrowserContext, ElectronApplication, Page } from 'playwright';
+
+export interface AttachOptions {
+  /** Port the app was started with --remote-debugging-port on */
+  cdpPort?: number;
+  /** Host the debugging port listens on (default 127.0.0.1) */
+  host?: string;
+  /** Browser WebSocket endpoint (ws://.../devtools/browser/<id>), instead of a port */
+  wsEndpoint?: string;
+  /** How long to wait for the connection (default 30000ms) */
+  timeout?: number;
+}
+
+/**
+ * The renderer side of ElectronApplication, which is all an app attached over
+ * CDP offers. A launched ElectronApplication satisfies it too.
+ */
+export interface RendererApp {
+  windows(): Page[];
+  firstWindow(options?: { timeout?: number }): Promise<Page>;
+  context(): BrowserContext;
+  on(event: 'window', listener: (page: Page) => void): RendererApp;
+  on(event: 'close', listener: () => void): RendererApp;
+  off(event: 'window', listener: (page: Page) => void): RendererApp;
+  off(event: 'close', listener: () => void): RendererApp;
+  close(): Promise<void>;
+}
+
+/** App served by a session: launched, or attached over CDP */
+export type SessionApp = ElectronApplication | RendererApp;
+
+export interface AttachedApp {
+  /** Renderer-side stand-in for ElectronApplication backed by the CDP connection */
+  app: RendererApp;
+  browser: Browser;
+  /** The endpoint that was connected to */
+  endpoint: string;
+}
+
+export const MAIN_PROCESS_UNAVAILABLE =
+  'The main process is not reachable when attached over CDP; ' +
+  'start the app with "pw-electron open" to use main-process features';
+
+/**
+ * Whether an app was launched by this process, so its main process can be
+ * reached (`evaluate`, `browserWindow`, `process`)
+ */
+export function isLaunchedApp(app: SessionApp): app is ElectronApplication {
+  return 'evaluate' in app;
+}
+
+/**
+ * Connect to an Electron app that was started with --remote-debugging-port.
+ *
+ * The result has the renderer side of ElectronApplication (windows, their
+ * context, 'window' and 'close' events) backed by CDP, and nothing that needs
+ * the main process. Closing it only disconnects; the app keeps running.
+ */
+export async function attachElectron(options: AttachOptions): Promise<AttachedApp> {
+  const endpoint = options.wsEndpoint ?? `http://${options.host ?? '127.0.0.1'}:${options.cdpPort}`;
+  if (!options.wsEndpoint && !options.cdpPort) {
+    throw new Error('Pass the app\'s remote debugging port or its WebSocket endpoint');
+  }
+
+  const browser = await chromium.connectOverCDP(endpoint, { timeout: options.timeout ?? 30000 });
+  const context = browser.contexts()[0];
+  if (!context) {
+    await browser.close();
+    throw new Error(`${endpoint} has no browser context to attach to`);
+  }
+
+  // 'close' listeners take no arguments, so both kinds fit the 'window' signature
+  const app: RendererApp = {
+    windows: () => context.pages(),
+    firstWindow: async (firstWindowOptions?: { timeout?: number }) =>
+      context.pages()[0] ?? context.waitForEvent('page', firstWindowOptions),
+    context: () => context,
+    on(event: 'window' | 'close', listener: (page: Page) => void) {
+      if (event === 'window') {
+        context.on('page', listener);
+      } else {
+        browser.on('disconnected', listener as () => void);
+      }
+      return app;
+    },
+    off(event: 'window' | 'close', listener: (page: Page) => void) {
+      if (event === 'window') {
+        context.off('page', listener);
+      } else {
+        browser.off('disconnected', listener as () => void);
+      }
+      return app;
+    },
+    close: () => browser.close(),
+  };
+
+  return { app, browser, endpoint };
+}
+
+/**
+ * Get an attached app's name and version from its user agent, which Electron
+ * sets to "... <name>/<version> Chrome/... Electron/..."
+ */
+export async function getAttachedAppInfo(app: SessionApp): Promise<{
+  name: string;
+  version: string;
+  electronVersion: string;
+  locale: string;
+}> {
+  const window = await app.firstWindow();
+  const { userAgent, locale } = await window.evaluate(
+    '({ userAgent: navigator.userAgent, locale: navigator.language })'
+  ) as { userAgent: string; locale: string };
+  const appMatch = /([^ /]+)\/([^ ]+) Chrome\//.exec(userAgent);
+  return {
+    name: appMatch?.[1] ?? '',
+    version: appMatch?.[2] ?? '',
+    electronVersion: /Electron\/([^ ]+)/.exec(userAgent)?.[1] ?? '',
+    locale,
+  };
+}
@@ -1,13 +1,350 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { startServer } from './server.js';
-import { evalScript, takeScreenshot, closeApp, getStatus, getActiveSession } from './client.js';
-import { loadSession, isSessionAlive, getDefaultPort } from './session.js';
+import { startServer, attachServer } from './server.js';
+import {
+  evalScript,
+  evalMainScript,
+  takeScreenshot,
+  takeSnapshot,
+  closeApp,
+  getStatus,
+  getActiveSession,
+  probeSession,
+  waitForSession,
+  getWindows,
+  waitForNewWindow,
+  getLogs,
+  getIpcMessages,
+  invokeIpc,
+  getMenu,
+  clickMenuItem,
+  startTrace,
+  stopTrace,
+  getVideos,
+  saveVideo,
+  runScriptFile,
+  runScriptSource,
+  stubDialog,
+  stubShell,
+  getStubs,
+  clearStubs,
+  addRoute,
+  getRoutes,
+  clearRoutes,
+  startHar,
+  stopHar,
+  ClientOptions,
+  ClientResponse,
+  ScriptOptions,
+  ScriptResult,
+  WindowTargetOptions,
+} from './client.js';
+import { startRepl } from './repl.js';
+import { startDetached } from './daemon.js';
+import { diagnoseApp } from './doctor.js';
+import { needsVirtualDisplay, startXvfb, stopXvfb, DEFAULT_SCREEN_SIZE } from './xvfb.js';
+import { findConfigFile, loadConfig, resolveProfile, parseEnvPairs, CONFIG_FILE_NAMES, ResolvedProfile } from './config.js';
+import { loadSession, listSessions, clearSession, describeEndpoint } from './session.js';
+import { isLogLevel, parseSince, LOG_LEVELS, LogEntry } from './logs.js';
+import type { IpcEntry } from './ipc.js';
+import type { MenuItemInfo, MenuQuery } from './menus.js';
+import { reviveResult } from './serialize.js';
+import { compareWithBaseline, parseRegion, parseCompareOptions } from './compare.js';
+import { formatSnapshotYaml } from './snapshot.js';
+import { runTests, writeJUnitReport, writeJsonReport, TestResult } from './test-runner.js';
+import * as fs from 'fs';
 import * as path from 'path';
+import * as util from 'util';
 
 const program = new Command();
 
+/** Exit code when the script itself threw */
+const EXIT_SCRIPT_ERROR = 1;
+/** Exit code when the session couldn't be reached or rejected the request */
+const EXIT_TRANSPORT_ERROR = 2;
+/** Exit code when the script was cancelled with Ctrl+C */
+const EXIT_CANCELLED = 130;
+
+/**
+ * Client options derived from the global --session flag
+ */
+function clientOptions(): ClientOptions {
+  return { session: program.opts().session };
+}
+
+/**
+ * Client options for commands that target a window.
+ *
+ * --window is declared on the program so it is accepted before or after the
+ * subcommand; commands also declare it so it shows up in their help.
+ */
+function windowTargetOptions(): WindowTargetOptions {
+  return { ...clientOptions(), window: program.opts().window };
+}
+
+/**
+ * Parse an option that takes a whole number, exiting with an explanation
+ * (`hint`) if it isn't one or is out of range. Numbers must be at least 1
+ * unless `min` says otherwise.
+ */
+function parseIntOption(
+  value: string,
+  flag: string,
+  hint: string,
+  { min = 1, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number } = {}
+): number {
+  const parsed = parseInt(value, 10);
+  if (!/^\d+$/.test(value) || parsed < min || parsed > max) {
+    console.error(`Invalid ${flag} "${value}". ${hint}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+const TIMEOUT_HINT = 'Use a number of milliseconds, e.g. 5000';
+const PORT_HINT = 'Use a port number between 1 and 65535';
+
+/**
+ * Exit with an explanation if a session of this name is already running
+ */
+async function exitIfSessionRunning(session?: string): Promise<void> {
+  let existingSession;
+  try {
+    existingSession = loadSession(session);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  if (existingSession && await probeSession(existingSession) !== 'dead') {
+    console.error(`An Electron app is already running in session "${existingSession.name}"!`);
+    console.error(`  App path: ${existingSession.appPath}`);
+    console.error(`  Started: ${existingSession.startedAt}`);
+    console.error(`  Endpoint: ${describeEndpoint(existingSession)}`);
+    console.error('\nUse "pw-electron close" to stop it first, run commands against it,');
+    console.error('or start another app under a different name with --session <name>.');
+    process.exit(1);
+  }
+}
+
+/**
+ * The launch profile picked by --config and --profile, if there is a config file
+ */
+async function loadLaunchProfile(options: { config?: string; profile?: string }): Promise<ResolvedProfile | undefined> {
+  const configFile = options.config ? path.resolve(options.config) : findConfigFile();
+  if (configFile) {
+    return resolveProfile(await loadConfig(configFile), configFile, options.profile);
+  }
+  if (options.profile) {
+    throw new Error(`No ${CONFIG_FILE_NAMES[0]} found for profile "${options.profile}"`);
+  }
+  return undefined;
+}
+
+/**
+ * Options for running a script: the target window, an optional timeout the
+ * server enforces, and a signal that aborts the request on Ctrl+C. The server
+ * cancels the script when the request goes away.
+ */
+function scriptOptions(timeout?: string): ScriptOptions {
+  const timeoutMs = timeout !== undefined ? parseIntOption(timeout, '--timeout', TIMEOUT_HINT) : undefined;
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  return { ...windowTargetOptions(), timeout: timeoutMs, signal: controller.signal };
+}
+
+/**
+ * Read all of stdin as a string
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Print the result of a script run, or report the failure and exit.
+ *
+ * By default strings are printed as-is and other values pretty-printed.
+ * --json prints the tagged serialized value; --raw writes strings and
+ * buffers exactly as they are, with no formatting or trailing newline.
+ */
+function printScriptResult(result: ClientResponse<ScriptResult>): void {
+  if (result.errorKind === 'cancelled') {
+    console.error('Cancelled');
+    process.exit(EXIT_CANCELLED);
+  }
+  if (!result.success || !result.data) {
+    console.error('Script execution failed:', result.error);
+    process.exit(result.errorKind === 'script' ? EXIT_SCRIPT_ERROR : EXIT_TRANSPORT_ERROR);
+  }
+
+  const { json, raw } = program.opts();
+  const serialized = result.data.result;
+
+  if (json) {
+    console.log(JSON.stringify(serialized, null, 2));
+    return;
+  }
+
+  const value = reviveResult(serialized);
+  if (value === undefined) {
+    return;
+  }
+
+  if (raw) {
+    if (typeof value === 'string' || Buffer.isBuffer(value)) {
+      process.stdout.write(value);
+    } else if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+      process.stdout.write(String(value));
+    } else {
+      process.stdout.write(JSON.stringify(serialized));
+    }
+    return;
+  }
+
+  console.log(typeof value === 'string' ? value : util.inspect(value, { depth: null, colors: process.stdout.isTTY }));
+}
+
+/**
+ * Run an inline script, or read one from stdin when the script is "-"
+ */
+async function runEval(script: string, timeout?: string): Promise<void> {
+  const options = scriptOptions(timeout);
+  try {
+    getActiveSession(clientOptions().session); // Will throw if no session
+    
+    const source = script === '-' ? await readStdin() : script;
+    const result = script === '-'
+      ? await runScriptSource(source, options)
+      : await evalScript(source, options);
+    printScriptResult(result);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(EXIT_TRANSPORT_ERROR);
+  }
+}
+
+/**
+ * Format a log entry as a single human-readable line
+ */
+function formatLogEntry(entry: LogEntry): string {
+  const source = entry.window ? `${entry.source}#${entry.window.index}` : entry.source;
+  return `${entry.timestamp} [${entry.level}] ${source}: ${entry.text}`;
+}
+
+/**
+ * Format an IPC entry as a single human-readable line
+ */
+function formatIpcEntry(entry: IpcEntry): string {
+  const direction = entry.direction === 'renderer-to-main' ? 'renderer -> main' : 'main -> renderer';
+  const sender = entry.webContentsId === null ? '' : ` (webContents ${entry.webContentsId})`;
+  const value = entry.error ? `threw ${entry.error}` : entry.args;
+  const duration = entry.durationMs === undefined ? '' : ` ${entry.durationMs}ms`;
+  return `${entry.timestamp} ${direction} ${entry.kind} ${entry.channel}${sender}: ${value}${duration}`;
+}
+
+/**
+ * Print a menu tree, one item per line, indented by depth
+ */
+function printMenu(items: MenuItemInfo[], depth = 0): void {
+  for (const item of items) {
+    const indent = '  '.repeat(depth);
+    if (item.type === 'separator') {
+      console.log(`${indent}---`);
+      continue;
+    }
+
+    const details = [
+      item.accelerator,
+      item.checked === undefined ? null : item.checked ? '[x]' : '[ ]',
+      item.enabled ? null : 'disabled',
+      item.visible ? null : 'hidden',
+      item.role ? `role: ${item.role}` : null,
+      item.id ? `id: ${item.id}` : null,
+    ].filter(Boolean);
+    console.log(`${indent}${item.label || '(no label)'}${details.length ? `  (${details.join(', ')})` : ''}`);
+    if (item.submenu) {
+      printMenu(item.submenu, depth + 1);
+    }
+  }
+}
+
+/**
+ * Menu to target from the --context, --tray and --tray-index options
+ */
+function menuQuery(options: { context?: boolean; tray?: boolean; trayIndex?: string }): MenuQuery {
+  const tray = options.tray || options.trayIndex !== undefined;
+  if (options.context && tray) {
+    throw new Error('Use either --context or --tray, not both');
+  }
+  if (options.context) {
+    return { source: 'context' };
+  }
+  if (tray) {
+    const index = options.trayIndex === undefined
+      ? 0
+      : parseIntOption(options.trayIndex, '--tray-index', 'Use a tray index, e.g. 1', { min: 0 });
+    return { source: 'tray', tray: index };
+  }
+  return { source: 'application' };
+}
+
+/**
+ * Format milliseconds as seconds, e.g. "1.2s"
+ */
+function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Print the outcome of a test as it finishes
+ */
+function printTestResult(result: TestResult): void {
+  const label = { passed: 'PASS ', failed: 'FAIL ', flaky: 'FLAKY' }[result.status];
+  const retried = result.attempts.length > 1 ? `, ${result.attempts.length} attempts` : '';
+  console.log(`  ${label} ${result.name} (${formatDuration(result.durationMs)}${retried})`);
+
+  if (result.status === 'failed') {
+    const last = result.attempts[result.attempts.length - 1];
+    console.log((last.error ?? '').replace(/^/gm, '        '));
+    if (last.screenshot) {
+      console.log(`        Screenshot: ${last.screenshot}`);
+    }
+  }
+}
+
+/**
+ * Print rows as left-aligned columns; the first row is the header
+ */
+function printTable(rows: string[][]): void {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, i) => i === row.length - 1 ? cell : cell.padEnd(widths[i])).join('  '));
+  }
+}
+
+/**
+ * Format the time elapsed since an ISO timestamp, e.g. "1h 02m 03s"
+ */
+function formatUptime(startedAt: string): string {
+  const totalSeconds = Math.max(0, Math.floor((Date.now() - Date.parse(startedAt)) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  if (hours > 0) {
+    return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${pad(seconds)}s`;
+  }
+  return `${seconds}s`;
+}
+
 program
   .name('pw-electron')
   .description(`CLI tool to run Playwright commands against Electron applications.
@@ -22,17 +359,33 @@ Workflow:
                          pw-electron screenshot output.png
   3. Close when done:    pw-electron close
 
+Run several apps side by side by giving each session a name with --session
+(or the PW_ELECTRON_SESSION environment variable).
+
 Examples:
   $ pw-electron open -p ./my-electron-app       # Start session
+  $ pw-electron open -p ./my-app --detach       # Start session in background
   $ pw-electron -e "await window.click('btn')"  # Run script
   $ pw-electron -e "return await window.title()" # Get value
+  $ pw-electron run ./flows/login.js            # Run a script file
+  $ pw-electron repl                            # Interactive shell
   $ pw-electron screenshot output.png           # Take screenshot
   $ pw-electron status                          # Check session
-  $ pw-electron close                           # Stop session`);
+  $ pw-electron list                            # List all sessions
+  $ pw-electron windows                         # List app windows
+  $ pw-electron logs --level error              # Show errors logged by the app
+  $ pw-electron trace start --snapshots         # Record a Playwright trace
+  $ pw-electron -w 1 screenshot second.png      # Target another window
+  $ pw-electron close                           # Stop session
+  $ pw-electron --session b open -p ./my-app    # Start a second session`);
 
 // Global option for -e (eval) mode
 program
-  .option('-e, --eval <script>', 'Execute a Playwright script (requires active session)');
+  .option('-e, --eval <script>', 'Execute a Playwright script (requires active session)')
+  .option('-s, --session <name>', 'Name of the session to use (default: "default")')
+  .option('-w, --window <selector>', 'Window to target: index, or regex matched against title/URL')
+  .option('--json', 'Print results as JSON')
+  .option('--raw', 'Print script results without formatting (strings and buffers as-is)');
 
 // Open command - starts the session server
 program
@@ -40,38 +393,151 @@ program
   .description('Open an Electron application and start a session server')
   .option('-p, --path <electron-path>', 'Path to the Electron application')
   .option('-a, --args <args...>', 'Arguments to pass to the Electron app')
-  .option('-t, --timeout <ms>', 'Timeout for launch in milliseconds', '30000')
-  .option('--port <port>', 'Port for the session server', String(getDefaultPort()))
+  .option('-t, --timeout <ms>', 'Timeout for launch in milliseconds (default: 30000)')
+  .option('--port <port>', 'Port for the session server (default: a free port)')
+  .option('--profile <name>', 'Launch profile from pw-electron.config.json')
+  .option('--config <file>', 'Config file to use instead of searching for pw-electron.config.{json,js,mjs}')
+  .option('--env <KEY=VALUE>', 'Environment variable for the app (repeatable)', (value: string, previous: string[]) => [...previous, value], [] as string[])
+  .option('--cwd <dir>', 'Working directory for the app')
+  .option('--user-data-dir <dir>', 'Pass --user-data-dir to the app')
+  .option('--electron <binary>', 'Electron binary to run a project, app.asar or main script with')
+  .option('--headless', 'On Linux without a display, run the app on a private Xvfb')
+  .option('--screen-size <size>', `Xvfb screen size for --headless, WIDTHxHEIGHT[xDEPTH] (default: ${DEFAULT_SCREEN_SIZE})`)
+  .option('--socket', 'Listen on a Unix domain socket (named pipe on Windows) instead of a TCP port')
+  .option('--detach', 'Run the session server in the background and exit once the app is ready')
+  .option('--record-video <dir>', 'Record a video of every window into this directory')
+  .option('--concurrent-scripts', 'Run eval/run scripts side by side instead of one at a time')
+  .option('--capture-ipc', 'Record IPC traffic between the renderers and the main process (see "pw-electron ipc")')
+  .option('--restart-on-crash', 'Relaunch the app when its main process or a renderer crashes')
+  .option('--max-restarts <n>', 'How many times --restart-on-crash relaunches before ending the session (default: 3)')
+  .option('--replay-har <file>', 'Answer the app\'s requests from a HAR file (see "pw-electron har") instead of the network')
+  .option('--har-not-found <action>', 'With --replay-har, "abort" or "fallback" to the network for requests not in the HAR (default: abort)')
   .addHelpText('after', `
 Example:
   $ pw-electron open -p ./my-electron-app
+  $ pw-electron --session second open -p ./my-electron-app
+  $ pw-electron open -p ./my-electron-app --detach
+  $ pw-electron open --profile staging --env LOG_LEVEL=debug
+  $ pw-electron open -p ./my-electron-app --headless --screen-size 1920x1080 --detach
+  $ pw-electron open -p ./my-electron-app --replay-har flows/login.har
 
 This launches the Electron app and starts a session server.
-Other commands will connect to this running instance.`)
+Other commands will connect to this running instance.
+
+The server only accepts requests carrying the session's random token, which
+is stored in the session file (readable only by you). Use --socket to listen
+on a Unix domain socket instead of a localhost TCP port.
+
+With --detach, the server runs in the background and writes its output to
+~/.pw-electron/logs/<session>.log. The command exits 0 once the first window
+has loaded and the server is listening, or non-zero with the launch error.
+
+Launch settings can also come from a pw-electron.config.json (or .js/.mjs)
+in the current directory or a parent: app path, args, env, cwd, timeout,
+user data dir, port and pre-/post-launch hooks, optionally in named profiles
+picked with --profile. Flags given on the command line override the config.
+
+With --headless on a Linux machine without a display (e.g. a CI runner), the
+session starts its own Xvfb and stops it when the session ends. It fails with
+install instructions if Xvfb isn't installed. With a display, it does nothing.
+
+Crashes (a renderer crashing, or the main process exiting with an error or a
+signal) are printed and listed by "pw-electron status". With
+--restart-on-crash the app is relaunched and commands target its new first
+window; otherwise a main-process crash ends the session.
+
+With --replay-har, requests found in the HAR are answered from it, so a flow
+recorded with "pw-electron har" can run offline. Other requests are aborted,
+or sent to the network with --har-not-found fallback. Routes added with
+"pw-electron route" take precedence over the HAR.`)
   .action(async (options) => {
-    // Check for existing session
-    const existingSession = loadSession();
-    if (existingSession && isSessionAlive(existingSession)) {
-      console.error('An Electron app is already running!');
-      console.error(`  App path: ${existingSession.appPath}`);
-      console.error(`  Started: ${existingSession.startedAt}`);
-      console.error(`  Port: ${existingSession.port}`);
-      console.error('\nUse "pw-electron close" to stop it first, or run commands against it.');
+    const { session } = clientOptions();
+
+    await exitIfSessionRunning(session);
+
+    let profile: ResolvedProfile | undefined;
+    let env: Record<string, string>;
+    try {
+      profile = await loadLaunchProfile(options);
+      env = { ...profile?.env, ...parseEnvPairs(options.env) };
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
       process.exit(1);
     }
 
-    if (!options.path) {
+    const appPath = options.path ? path.resolve(options.path) : profile?.path;
+    if (!appPath) {
       console.error('Error: Please specify the path to the Electron application');
       console.error('  pw-electron open -p /path/to/electron/app');
+      console.error(`or set "path" in ${CONFIG_FILE_NAMES[0]}`);
+      process.exit(1);
+    }
+
+    const timeout = options.timeout !== undefined
+      ? parseIntOption(options.timeout, '--timeout', TIMEOUT_HINT)
+      : profile?.timeout ?? 30000;
+    const maxRestarts = options.maxRestarts !== undefined
+      ? parseIntOption(options.maxRestarts, '--max-restarts', 'Use a number, e.g. 3', { min: 0 })
+      : profile?.maxRestarts;
+    const port = options.port !== undefined
+      ? parseIntOption(options.port, '--port', PORT_HINT, { max: 65535 })
+      : profile?.port;
+    const userDataDir = options.userDataDir ? path.resolve(options.userDataDir) : profile?.userDataDir;
+    const replayHar = options.replayHar ? path.resolve(options.replayHar) : profile?.replayHar;
+    if (replayHar && !fs.existsSync(replayHar)) {
+      console.error(`Error: HAR file not found: ${replayHar}`);
+      process.exit(1);
+    }
+    if (options.harNotFound && options.harNotFound !== 'abort' && options.harNotFound !== 'fallback') {
+      console.error(`Invalid --har-not-found "${options.harNotFound}". Use abort or fallback`);
       process.exit(1);
     }
+    const args: string[] = [
+      ...(options.args ?? profile?.args ?? []),
+      ...(userDataDir ? [`--user-data-dir=${userDataDir}`] : []),
+    ];
+
+    if (options.detach) {
+      try {
+        // The background server loads the config again, so only the flags are passed on
+        const { session: started, logFile } = await startDetached({
+          session,
+          args: process.argv.slice(2).filter(arg => arg !== '--detach'),
+          timeout: timeout + 10000,
+        });
+        console.log(`Session "${started.name}" ready (pid ${started.pid}, ${describeEndpoint(started)})`);
+        console.log(`  App path: ${started.appPath}`);
+        console.log(`  Logs: ${logFile}`);
+        process.exit(0);
+      } catch (error) {
+        console.error('Failed to start session:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
 
     try {
       await startServer({
-        appPath: path.resolve(options.path),
-        args: options.args,
-        timeout: parseInt(options.timeout, 10),
-        port: parseInt(options.port, 10),
+        appPath,
+        electronPath: options.electron ? path.resolve(options.electron) : profile?.electron,
+        args,
+        timeout,
+        port,
+        cwd: options.cwd ? path.resolve(options.cwd) : profile?.cwd,
+        env,
+        preLaunch: profile?.preLaunch,
+        postLaunch: profile?.postLaunch,
+        hookCwd: profile ? path.dirname(profile.configFile) : undefined,
+        headless: options.headless ?? profile?.headless,
+        screenSize: options.screenSize ?? profile?.screenSize,
+        restartOnCrash: options.restartOnCrash ?? profile?.restartOnCrash,
+        maxRestarts,
+        replayHar,
+        harNotFound: options.harNotFound,
+        socket: options.socket,
+        session,
+        recordVideo: options.recordVideo ? path.resolve(options.recordVideo) : undefined,
+        concurrentScripts: options.concurrentScripts,
+        captureIpc: options.captureIpc,
       });
     } catch (error) {
       console.error('Failed to start session:', error);
@@ -79,25 +545,341 @@ Other commands will connect to this running instance.`)
     }
   });
 
+// Attach command - serve an app that is already running
+program
+  .command('attach')
+  .description('Attach to a running Electron app over CDP and start a session server')
+  .option('--cdp-port <port>', 'Port the app was started with --remote-debugging-port on')
+  .option('--host <host>', 'Host the debugging port listens on', '127.0.0.1')
+  .option('--ws-endpoint <url>', 'Browser WebSocket endpoint (ws://.../devtools/browser/<id>), instead of --cdp-port')
+  .option('-t, --timeout <ms>', 'How long to wait for the connection and a window in milliseconds', '30000')
+  .option('--port <port>', 'Port for the session server (default: a free port)')
+  .option('--socket', 'Listen on a Unix domain socket (named pipe on Windows) instead of a TCP port')
+  .option('--detach', 'Run the session server in the background and exit once attached')
+  .option('--concurrent-scripts', 'Run eval/run scripts side by side instead of one at a time')
+  .addHelpText('after', `
+Example:
+  $ electron . --remote-debugging-port=9222 &
+  $ pw-electron attach --cdp-port 9222
+  $ pw-electron attach --ws-endpoint ws://127.0.0.1:9222/devtools/browser/<id> --detach
+
+Connects to an app that something else started (electron-forge start, a dev
+server script, a long-lived instance) and registers a normal session, so eval,
+run, screenshot, windows, logs, status and the rest work as with "open".
+
+The main process can't be reached over CDP, so main-eval, menu, ipc and stub
+commands report an error, and logs only include the renderers' output.
+
+"pw-electron close" and Ctrl+C detach from the app without closing it.`)
+  .action(async (options) => {
+    const { session } = clientOptions();
+    await exitIfSessionRunning(session);
+
+    if (!options.cdpPort && !options.wsEndpoint) {
+      console.error('Error: Please specify the app\'s debugging port or WebSocket endpoint');
+      console.error('  pw-electron attach --cdp-port 9222');
+      process.exit(1);
+    }
+
+    const timeout = parseIntOption(options.timeout, '--timeout', TIMEOUT_HINT);
+    const cdpPort = options.cdpPort !== undefined
+      ? parseIntOption(options.cdpPort, '--cdp-port', PORT_HINT, { max: 65535 })
+      : undefined;
+    const port = options.port !== undefined
+      ? parseIntOption(options.port, '--port', PORT_HINT, { max: 65535 })
+      : undefined;
+
+    if (options.detach) {
+      try {
+        const { session: started, logFile } = await startDetached({
+          session,
+          args: process.argv.slice(2).filter(arg => arg !== '--detach'),
+          timeout: timeout + 10000,
+        });
+        console.log(`Session "${started.name}" attached (pid ${started.pid}, ${describeEndpoint(started)})`);
+        console.log(`  CDP endpoint: ${started.appPath}`);
+        console.log(`  Logs: ${logFile}`);
+        process.exit(0);
+      } catch (error) {
+        console.error('Failed to attach:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    }
+
+    try {
+      await attachServer({
+        cdpPort,
+        host: options.host,
+        wsEndpoint: options.wsEndpoint,
+        timeout,
+        port,
+        socket: options.socket,
+        session,
+        concurrentScripts: options.concurrentScripts,
+      });
+    } catch (error) {
+      console.error('Failed to attach:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Doctor command - explain how an app would be launched
+program
+  .command('doctor')
+  .description('Check how an Electron app would be launched and why the launch might fail')
+  .option('-p, --path <electron-path>', 'Path to the Electron application')
+  .option('--electron <binary>', 'Electron binary to run a project, app.asar or main script with')
+  .option('--profile <name>', 'Launch profile from pw-electron.config.json')
+  .option('--config <file>', 'Config file to use instead of searching for pw-electron.config.{json,js,mjs}')
+  .option('--json', 'Print the report as JSON')
+  .addHelpText('after', `
+Example:
+  $ pw-electron doctor -p ./my-electron-app
+  $ pw-electron doctor -p ./dist
+  $ pw-electron doctor -p ./resources/app.asar --electron /usr/bin/electron
+
+The app path can be an Electron project directory (package.json "main" must
+exist), a packaged app (electron-builder's dist/linux-unpacked, a forge
+out/<name>-<platform>-<arch> dir, an extracted AppImage, a .app bundle) or
+the directory containing one, the app's executable, an app.asar or a main
+script. Projects, asar archives and scripts run with electron from
+node_modules, electron on the PATH, or --electron.
+
+Exits 0 if the app can be launched as far as can be told without launching
+it, 1 otherwise.`)
+  .action(async (options) => {
+    let profile: ResolvedProfile | undefined;
+    try {
+      profile = await loadLaunchProfile(options);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    const appPath = options.path ? path.resolve(options.path) : profile?.path;
+    if (!appPath) {
+      console.error('Error: Please specify the path to the Electron application');
+      console.error('  pw-electron doctor -p /path/to/electron/app');
+      process.exit(1);
+    }
+
+    const report = diagnoseApp(appPath, options.electron ? path.resolve(options.electron) : profile?.electron);
+    if (program.opts().json) {
+      console.log(JSON.stringify(report, null, 2));
+      process.exit(report.ok ? 0 : 1);
+    }
+
+    console.log(`App path: ${report.appPath}`);
+    for (const check of report.checks) {
+      const label = { ok: 'OK   ', warning: 'WARN ', error: 'ERROR' }[check.status];
+      console.log(`  ${label} ${check.message.replace(/\n/g, '\n        ')}`);
+    }
+    if (report.resolution) {
+      console.log(`\nLaunch command: ${[report.resolution.executable, ...report.resolution.appArgs].join(' ')}`);
+    }
+    process.exit(report.ok ? 0 : 1);
+  });
+
+// Wait-ready command
+program
+  .command('wait-ready')
+  .description('Wait until a session is running and ready for commands')
+  .option('-t, --timeout <ms>', 'How long to wait in milliseconds', '30000')
+  .addHelpText('after', `
+Example:
+  $ pw-electron open -p ./my-electron-app &
+  $ pw-electron wait-ready --timeout 60000
+
+Exits 0 once the session's app has loaded and its server answers requests,
+or 1 if that doesn't happen within the timeout.`)
+  .action(async (options) => {
+    const timeout = parseIntOption(options.timeout, '--timeout', TIMEOUT_HINT);
+    try {
+      const session = await waitForSession({ ...clientOptions(), timeout });
+      console.log(`Session "${session.name}" is ready`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Screenshot command - connects to existing session
 program
   .command('screenshot')
   .description('Take a screenshot of the running Electron application')
-  .argument('<output>', 'Output path for the screenshot')
+  .argument('[output]', 'Output path for the screenshot, or "-" for stdout')
+  .option('-w, --window <selector>', 'Window to capture: index, or regex matched against title/URL')
+  .option('--selector <css>', 'Capture only the element matching this selector')
+  .option('--full-page', 'Capture the full scrollable page')
+  .option('--clip <x,y,w,h>', 'Capture only this region')
+  .option('--mask <selector...>', 'Cover elements matching these selectors with a solid box')
+  .option('--type <type>', 'Image type: png or jpeg (default: from the output extension, else png)')
+  .option('--quality <n>', 'JPEG quality, 0-100')
+  .option('--omit-background', 'Make the default white background transparent (PNG only)')
+  .option('--json', 'Print the result as JSON; without an output path, includes the image as base64')
+  .option('--compare <baseline>', 'Compare against a baseline PNG and exit non-zero on mismatch')
+  .option('--update-baselines', 'With --compare, overwrite the baseline with the new screenshot')
+  .option('--threshold <0-1>', 'Per-pixel color difference threshold; smaller is stricter', '0.1')
+  .option('--include-aa', 'Count anti-aliased pixels as differences (ignored by default)')
+  .option('--max-diff-pixels <n>', 'Number of differing pixels to tolerate', '0')
+  .option('--max-diff-ratio <0-1>', 'Ratio of differing pixels to tolerate')
+  .option('--ignore-region <x,y,w,h...>', 'Regions to leave out of the comparison')
+  .option('--diff <path>', 'Where to write the diff image (default: <baseline>-diff.png)')
   .addHelpText('after', `
 Example:
   $ pw-electron screenshot output.png
+  $ pw-electron screenshot settings.png --window "Settings"
+  $ pw-electron screenshot card.png --selector ".card" --omit-background
+  $ pw-electron screenshot page.jpg --full-page --type jpeg --quality 80
+  $ pw-electron screenshot region.png --clip 0,0,400,300 --mask ".avatar" ".timestamp"
+  $ pw-electron screenshot - > output.png
+  $ pw-electron screenshot --json | jq -r .base64
+
+Visual regression:
+  $ pw-electron screenshot --compare baselines/home.png --update-baselines
+  $ pw-electron screenshot --compare baselines/home.png --max-diff-pixels 50
+
+On mismatch, home-diff.png (changed pixels in red) and home-actual.png are
+written next to the baseline and the command exits 1.
 
 Requires an active session (started with "pw-electron open").`)
-  .action(async (output) => {
+  .action(async (output, options) => {
     try {
-      const result = await takeScreenshot(path.resolve(output));
-      if (result.success) {
-        console.log(`Screenshot saved to: ${output}`);
-      } else {
+      const json = program.opts().json;
+      if (!output && !json && !options.compare) {
+        throw new Error('Specify an output path, "-" for stdout, or --json to get the image as base64');
+      }
+      if (output === '-' && json) {
+        throw new Error('Use either "-" to write the image to stdout or --json, not both');
+      }
+      if (options.compare && options.type && options.type !== 'png') {
+        throw new Error('--compare only works with png screenshots');
+      }
+      const quality = options.quality !== undefined
+        ? parseIntOption(options.quality, '--quality', 'Use a whole number from 0 to 100, e.g. 80', { min: 0, max: 100 })
+        : undefined;
+      const jpeg = options.type === 'jpeg' || (!options.type && output && /\.jpe?g$/i.test(output));
+      if (quality !== undefined && (options.compare || !jpeg)) {
+        throw new Error('--quality only works with jpeg screenshots; pass --type jpeg or a .jpg output path');
+      }
+      const compareOptions = options.compare ? parseCompareOptions(options) : undefined;
+
+      // Comparisons happen here, so fetch the image rather than having the server save it
+      const toStdout = output === '-';
+      const fetchImage = toStdout || Boolean(options.compare);
+      const result = await takeScreenshot(output && !fetchImage ? path.resolve(output) : undefined, {
+        ...windowTargetOptions(),
+        selector: options.selector,
+        fullPage: options.fullPage,
+        clip: options.clip ? parseRegion(options.clip, '--clip') : undefined,
+        mask: options.mask,
+        type: options.compare ? 'png' : options.type,
+        quality,
+        omitBackground: options.omitBackground,
+      });
+      if (!result.success || !result.data) {
         console.error('Failed to take screenshot:', result.error);
         process.exit(1);
       }
+
+      const image = fetchImage ? Buffer.from(result.data.base64 ?? '', 'base64') : undefined;
+
+      if (toStdout) {
+        process.stdout.write(image!);
+      } else if (output && image) {
+        await fs.promises.writeFile(output, image);
+      }
+
+      if (options.compare) {
+        const baseline = path.resolve(options.compare);
+        if (options.updateBaselines) {
+          await fs.promises.mkdir(path.dirname(baseline), { recursive: true });
+          await fs.promises.writeFile(baseline, image!);
+          console.error(`Baseline updated: ${options.compare}`);
+          return;
+        }
+
+        const comparison = await compareWithBaseline(image!, baseline, {
+          ...compareOptions,
+          includeAA: options.includeAa,
+          diffPath: options.diff ? path.resolve(options.diff) : undefined,
+        });
+
+        if (json) {
+          console.log(JSON.stringify(comparison, null, 2));
+        } else if (comparison.match) {
+          console.error(`Screenshot matches baseline ${options.compare} (${comparison.diffPixels} pixels differ)`);
+        } else {
+          console.error(`Screenshot does not match baseline ${options.compare}: ${comparison.reason}`);
+          if (comparison.diffPath) {
+            console.error(`  Diff: ${comparison.diffPath}`);
+          }
+          console.error(`  Actual: ${comparison.actualPath}`);
+        }
+        if (!comparison.match) {
+          process.exit(1);
+        }
+      } else if (json && !toStdout) {
+        const { type, path: savedPath, base64 } = result.data;
+        console.log(JSON.stringify({ type, path: savedPath, base64 }, null, 2));
+      } else if (!toStdout) {
+        console.log(`Screenshot saved to: ${output}`);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Snapshot command - accessibility tree of a window
+program
+  .command('snapshot')
+  .description('Print the accessibility tree of a window, with a suggested locator for each interactive element')
+  .option('-w, --window <selector>', 'Window to snapshot: index, or regex matched against title/URL')
+  .option('--selector <css>', 'Only snapshot the element matching this selector')
+  .option('--format <format>', 'Output format: yaml or json (default: yaml)')
+  .option('--interesting-only', 'Keep only interactive elements, headings and named landmarks')
+  .addHelpText('after', `
+Example:
+  $ pw-electron snapshot
+  $ pw-electron snapshot --interesting-only
+  $ pw-electron snapshot --window "Settings" --selector "form"
+  $ pw-electron snapshot --format json | jq '.nodes'
+
+The YAML is Playwright's aria snapshot format, so it can be pasted into
+expect(locator).toMatchAriaSnapshot(). Each interactive element ends with its
+suggested locator as a comment, e.g.
+
+  - button "Save" [disabled]  # getByRole('button', { name: 'Save' })
+
+Locators prefer a unique data-testid, then a unique role and name, then a
+unique id, and fall back to .nth(). They are relative to the window, so they
+work as window.<locator> in scripts.`)
+  .action(async (options) => {
+    const format = program.opts().json ? 'json' : options.format ?? 'yaml';
+    if (format !== 'yaml' && format !== 'json') {
+      console.error(`Invalid --format "${options.format}". Use yaml or json`);
+      process.exit(1);
+    }
+
+    try {
+      const result = await takeSnapshot({
+        ...windowTargetOptions(),
+        selector: options.selector,
+        interestingOnly: options.interestingOnly,
+      });
+      if (!result.success || !result.data) {
+        console.error('Failed to take snapshot:', result.error);
+        process.exit(1);
+      }
+
+      if (format === 'json') {
+        console.log(JSON.stringify(result.data, null, 2));
+      } else if (result.data.nodes.length === 0) {
+        console.error(options.interestingOnly ? 'No interactive elements found.' : 'No accessible elements found.');
+      } else {
+        console.log(formatSnapshotYaml(result.data.nodes));
+      }
     } catch (error) {
       console.error(error instanceof Error ? error.message : error);
       process.exit(1);
@@ -115,7 +897,7 @@ Example:
 Shows information about the active session including app name, version, and path.`)
   .action(async () => {
     try {
-      const result = await getStatus();
+      const result = await getStatus(clientOptions());
       if (result.success) {
         console.log('Session active:');
         console.log(JSON.stringify(result.data, null, 2));
@@ -138,12 +920,15 @@ Example:
   $ pw-electron close
 
 Stops the Electron app and clears the session. You can also press Ctrl+C in the
-terminal where 'pw-electron open' is running.`)
+terminal where 'pw-electron open' is running. Sessions started with
+'pw-electron attach' detach instead, leaving the app running.`)
   .action(async () => {
     try {
-      const result = await closeApp();
+      const result = await closeApp(clientOptions());
       if (result.success) {
-        console.log('Electron application closed');
+        console.log(result.data?.detached
+          ? 'Detached from the Electron application (it keeps running)'
+          : 'Electron application closed');
       } else {
         console.error('Failed to close:', result.error);
         process.exit(1);
@@ -154,56 +939,1044 @@ terminal where 'pw-electron open' is running.`)
     }
   });
 
-// Add an 'eval' command as an alternative to -e
+// List command
 program
-  .command('eval <script>')
-  .description('Execute an inline Playwright script against the running app')
+  .command('list')
+  .description('List all running sessions')
   .addHelpText('after', `
 Example:
-  $ pw-electron eval "await window.click('button')"
-  $ pw-electron eval "return await window.title()"
+  $ pw-electron list
 
-Requires an active session (started with "pw-electron open").`)
-  .action(async (script) => {
+Shows every live session with its PID, endpoint (port or socket), app path and uptime.
+Session files left behind by servers that are no longer running are removed.
+Each session's server is pinged, so a file whose PID was reused by another
+process is removed too.`)
+  .action(async () => {
+    const all = listSessions();
+    const liveness = await Promise.all(all.map(session => probeSession(session)));
+    const sessions = all.filter((session, index) => {
+      if (liveness[index] !== 'dead') {
+        return true;
+      }
+      clearSession(session.name);
+      return false;
+    });
+
+    if (sessions.length === 0) {
+      console.log('No active sessions');
+      return;
+    }
+
+    const rows = [
+      ['NAME', 'PID', 'ENDPOINT', 'UPTIME', 'APP PATH'],
+      ...sessions.map(session => [
+        session.name,
+        String(session.pid),
+        describeEndpoint(session),
+        formatUptime(session.startedAt),
+        session.appPath,
+      ]),
+    ];
+    printTable(rows);
+  });
+
+// Windows command
+program
+  .command('windows')
+  .description('List the windows of the running Electron application')
+  .addHelpText('after', `
+Example:
+  $ pw-electron windows
+
+Shows each window's index, BrowserWindow id, title and URL. The index, or a
+regex matching the title or URL, can be passed to --window on eval and screenshot.`)
+  .action(async () => {
     try {
-      getActiveSession(); // Will throw if no session
-      
-      const result = await evalScript(script);
-      if (result.success) {
-        const data = result.data as Record<string, unknown>;
-        if (data?.result !== undefined) {
-          console.log(data.result);
-        }
-      } else {
-        console.error('Script execution failed:', result.error);
+      const result = await getWindows(clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to list windows:', result.error);
         process.exit(1);
       }
+
+      const { windows } = result.data;
+      if (windows.length === 0) {
+        console.log('No windows open');
+        return;
+      }
+
+      printTable([
+        ['INDEX', 'ID', 'TITLE', 'URL'],
+        ...windows.map(win => [String(win.index), win.id === null ? '-' : String(win.id), win.title, win.url]),
+      ]);
     } catch (error) {
       console.error(error instanceof Error ? error.message : error);
       process.exit(1);
     }
   });
 
-// Handle -e option at the program level (for backwards compatibility)
-program.action(async (options) => {
-  if (options.eval) {
+// Wait-window command
+program
+  .command('wait-window')
+  .description('Wait until a new window opens, optionally matching a selector')
+  .argument('[match]', 'Window index, or regex matched against title/URL')
+  .option('-t, --timeout <ms>', 'How long to wait in milliseconds', '30000')
+  .addHelpText('after', `
+Example:
+  $ pw-electron wait-window "Preferences"
+  $ pw-electron wait-window "settings\\.html" --timeout 5000
+
+Only windows opened after the command starts are considered. Prints the new
+window's index, id, title and URL as JSON.`)
+  .action(async (match, options) => {
     try {
-      getActiveSession(); // Will throw if no session
-      
-      const result = await evalScript(options.eval);
-      if (result.success) {
-        const data = result.data as Record<string, unknown>;
-        if (data?.result !== undefined) {
-          console.log(data.result);
-        }
+      const timeout = parseIntOption(options.timeout, '--timeout', TIMEOUT_HINT);
+      const result = await waitForNewWindow({
+        ...clientOptions(),
+        match,
+        timeout,
+      });
+      if (result.success && result.data) {
+        console.log(JSON.stringify(result.data.window, null, 2));
       } else {
-        console.error('Script execution failed:', result.error);
+        console.error('Failed to wait for window:', result.error);
         process.exit(1);
       }
     } catch (error) {
       console.error(error instanceof Error ? error.message : error);
       process.exit(1);
     }
+  });
+
+// Logs command
+program
+  .command('logs')
+  .description('Show console messages, page errors and main-process output from the running app')
+  .option('-f, --follow', 'Keep printing new log entries as they arrive')
+  .option('-l, --level <level>', `Minimum level to show (${LOG_LEVELS.join(', ')})`)
+  .option('--since <time>', 'Only show entries since an ISO timestamp, epoch ms, or duration ago (e.g. 5m)')
+  .option('--json', 'Print one JSON object per line')
+  .addHelpText('after', `
+Example:
+  $ pw-electron logs
+  $ pw-electron logs --level error --since 5m
+  $ pw-electron logs --follow --json
+
+Renderer console messages and uncaught page errors are tagged with the index of
+the window they came from. Main-process stdout is logged as info and stderr as error.
+The session keeps the most recent 5000 entries.`)
+  .action(async (options) => {
+    try {
+      if (options.level && !isLogLevel(options.level)) {
+        throw new Error(`Invalid --level "${options.level}". Use one of: ${LOG_LEVELS.join(', ')}`);
+      }
+
+      const query = {
+        ...clientOptions(),
+        level: options.level,
+        since: options.since ? parseSince(options.since) : undefined,
+      };
+      const json = program.opts().json;
+      const print = (entry: LogEntry) => console.log(json ? JSON.stringify(entry) : formatLogEntry(entry));
+
+      let after: number | undefined;
+      for (;;) {
+        const result = await getLogs({ ...query, after });
+        if (!result.success || !result.data) {
+          console.error('Failed to get logs:', result.error);
+          process.exit(1);
+        }
+
+        for (const entry of result.data.logs) {
+          print(entry);
+          after = entry.seq;
+        }
+
+        if (!options.follow) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// IPC commands - inspect and drive ipcRenderer/ipcMain messaging
+const ipc = program
+  .command('ipc')
+  .description('Show IPC traffic recorded by a session opened with --capture-ipc')
+  .option('-c, --channel <pattern>', 'Only show channels matching this regex')
+  .option('-f, --follow', 'Keep printing new messages as they arrive')
+  .option('--json', 'Print one JSON object per line')
+  .addHelpText('after', `
+Example:
+  $ pw-electron open -p ./my-electron-app --capture-ipc
+  $ pw-electron ipc
+  $ pw-electron ipc --channel "^settings:" --follow
+  $ pw-electron ipc invoke settings:get '"theme"'
+
+Records messages received by ipcMain listeners (ipcRenderer.send/sendSync),
+ipcMain.handle and webContents.ipc.handle calls and their replies with timing,
+and webContents.send messages. Arguments are shown as JSON, truncated to 500
+characters. The session keeps the most recent 5000 messages.
+
+Handlers registered before capture starts are wrapped too, but messages sent
+before the session finished launching are not recorded. Handlers registered
+on a single frame (WebFrameMain.ipc) are not recorded.`)
+  .action(async (options) => {
+    try {
+      const json = program.opts().json;
+      let after: number | undefined;
+      for (;;) {
+        const result = await getIpcMessages({ ...clientOptions(), channel: options.channel, after });
+        if (!result.success || !result.data) {
+          console.error('Failed to get IPC messages:', result.error);
+          process.exit(1);
+        }
+
+        for (const entry of result.data.messages) {
+          console.log(json ? JSON.stringify(entry) : formatIpcEntry(entry));
+          after = entry.seq;
+        }
+
+        if (!options.follow) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+ipc
+  .command('invoke <channel> [args...]')
+  .description('Call an ipcMain.handle or webContents.ipc.handle channel directly and print what it returns')
+  .option('--json', 'Print the result as tagged JSON')
+  .option('--raw', 'Print the result without formatting (strings and buffers as-is)')
+  .option('-t, --timeout <ms>', 'Give up if the handler takes longer than this many milliseconds')
+  .addHelpText('after', `
+Example:
+  $ pw-electron ipc invoke settings:get '"theme"'
+  $ pw-electron ipc invoke files:list '{"dir": "/tmp", "hidden": false}'
+
+Each argument is parsed as JSON, or passed as a string if it isn't valid JSON.
+The handler sees the first window as the event's sender. As in Electron, a
+handler on that window's webContents.ipc is used over one on ipcMain. Works
+with or without --capture-ipc.
+
+Exit codes: 0 on success, 1 if the handler threw, 2 if the session couldn't
+be reached or rejected the request.`)
+  .action(async (channel: string, args: string[], options) => {
+    const parsed = args.map(arg => {
+      try {
+        return JSON.parse(arg);
+      } catch {
+        return arg;
+      }
+    });
+
+    try {
+      printScriptResult(await invokeIpc(channel, parsed, scriptOptions(options.timeout)));
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(EXIT_TRANSPORT_ERROR);
+    }
+  });
+
+// Menu commands - inspect and click native menus
+const menu = program
+  .command('menu')
+  .description('Inspect and click the application menu, context menus and tray menus')
+  .addHelpText('after', `
+Example:
+  $ pw-electron menu list
+  $ pw-electron menu click "File > Export > PDF"
+  $ pw-electron -e "await window.click('#editor', { button: 'right' })"
+  $ pw-electron menu click --context "Copy"
+  $ pw-electron menu list --tray
+
+Playwright can't click native menus, so these commands work on the menus in
+the main process instead. Context menus are the last one opened with
+menu.popup(); tray menus are those set with tray.setContextMenu() or shown with
+tray.popUpContextMenu(menu). Both are only seen if that happened after the
+session started.`);
+
+menu
+  .command('list')
+  .description('Show a menu tree with accelerators, state and ids')
+  .option('--context', 'Show the last context menu the app opened')
+  .option('--tray', 'Show a tray menu')
+  .option('--tray-index <index>', 'Which tray, in the order their menus were set (default: 0)')
+  .option('--json', 'Print the menu tree as JSON')
+  .action(async (options) => {
+    try {
+      const result = await getMenu({ ...clientOptions(), ...menuQuery(options) });
+      if (!result.success || !result.data) {
+        console.error('Failed to get menu:', result.error);
+        process.exit(1);
+      }
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(result.data.items, null, 2));
+      } else {
+        printMenu(result.data.items);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+menu
+  .command('click <path>')
+  .description('Click a menu item by its path of labels, e.g. "File > Export > PDF"')
+  .option('--context', 'Click an item of the last context menu the app opened')
+  .option('--tray', 'Click an item of a tray menu')
+  .option('--tray-index <index>', 'Which tray, in the order their menus were set (default: 0)')
+  .addHelpText('after', `
+Each segment of the path matches an item's label (case-insensitive, ignoring
+"&" mnemonics) or its id. The item's click handler or role runs in the main
+process with the focused window, and checkbox and radio items are toggled,
+as if the user had clicked it. Disabled items can't be clicked.`)
+  .action(async (itemPath, options) => {
+    try {
+      const result = await clickMenuItem(itemPath, { ...clientOptions(), ...menuQuery(options) });
+      if (!result.success || !result.data) {
+        console.error('Failed to click menu item:', result.error);
+        process.exit(1);
+      }
+      console.log(`Clicked: ${result.data.path.join(' > ')}`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Trace commands
+const trace = program
+  .command('trace')
+  .description('Record a Playwright trace of the running app')
+  .addHelpText('after', `
+Example:
+  $ pw-electron trace start --screenshots --snapshots
+  $ pw-electron -e "await window.click('button')"
+  $ pw-electron trace stop trace.zip
+  $ npx playwright show-trace trace.zip
+
+The trace covers everything run against the session between start and stop.`);
+
+trace
+  .command('start')
+  .description('Start recording a trace')
+  .option('--screenshots', 'Capture screenshots during the trace')
+  .option('--snapshots', 'Capture DOM snapshots for every action')
+  .action(async (options) => {
+    try {
+      const result = await startTrace({
+        ...clientOptions(),
+        screenshots: options.screenshots,
+        snapshots: options.snapshots,
+      });
+      if (result.success) {
+        console.log('Tracing started');
+      } else {
+        console.error('Failed to start trace:', result.error);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+trace
+  .command('stop')
+  .description('Stop recording and save the trace')
+  .argument('<output>', 'Output path for the trace zip')
+  .action(async (output) => {
+    try {
+      const result = await stopTrace(output, clientOptions());
+      if (result.success) {
+        console.log(`Trace saved to: ${output}`);
+      } else {
+        console.error('Failed to stop trace:', result.error);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Video commands
+const video = program
+  .command('video')
+  .description('Save videos recorded with "open --record-video"')
+  .addHelpText('after', `
+Example:
+  $ pw-electron open -p ./my-electron-app --record-video ./videos
+  $ pw-electron video list
+  $ pw-electron video save bug.webm --finalize
+  $ pw-electron video save ./all-windows --all --finalize
+
+Each window gets its own video.`);
+
+video
+  .command('list')
+  .description('List the video of every window opened during the session')
+  .action(async () => {
+    try {
+      const result = await getVideos(clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to list videos:', result.error);
+        process.exit(1);
+      }
+
+      const { videos } = result.data;
+      if (videos.length === 0) {
+        console.log('No videos recorded. Start the session with "pw-electron open --record-video <dir>".');
+        return;
+      }
+
+      printTable([
+        ['INDEX', 'STATE', 'URL', 'VIDEO'],
+        ...videos.map(v => [String(v.index), v.open ? 'recording' : 'closed', v.url, v.path]),
+      ]);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+video
+  .command('save')
+  .description("Save a window's video")
+  .argument('<path>', 'Output file (or directory with --all)')
+  .option('-w, --window <selector>', 'Window whose video to save: index, or regex matched against title/URL')
+  .option('--all', 'Save the video of every window, as <path>/window-<index>.webm')
+  .option('--finalize', 'Close the window(s) first so the saved video is complete')
+  .addHelpText('after', `
+Videos are only complete once their window closes, so saving the video of an
+open window fails unless --finalize is given to close the window first. Closing
+the last window usually quits the app.`)
+  .action(async (output, options) => {
+    try {
+      const result = await saveVideo(output, {
+        ...windowTargetOptions(),
+        all: options.all,
+        finalize: options.finalize,
+      });
+      if (!result.success || !result.data) {
+        console.error('Failed to save video:', result.error);
+        process.exit(1);
+      }
+
+      for (const saved of result.data.videos) {
+        console.log(`Video of window ${saved.index} saved to: ${saved.path}`);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Stub commands - replace native dialogs and shell calls the app makes
+const stub = program
+  .command('stub')
+  .description('Stub native dialogs and shell calls, and record the calls made to them')
+  .addHelpText('after', `
+Example:
+  $ pw-electron stub dialog --open-paths a.txt,b.txt
+  $ pw-electron stub dialog --message-box-response 1
+  $ pw-electron stub shell --capture-open-external
+  $ pw-electron stub list
+  $ pw-electron stub clear
+
+Playwright can't click native dialogs, so flows that open a file picker or
+message box hang. Stubs answer them from the main process instead, and every
+intercepted call is recorded for "stub list" to show.`);
+
+stub
+  .command('dialog')
+  .description('Answer native dialogs with canned responses instead of showing them')
+  .option('--open-paths <paths>', 'Comma-separated files showOpenDialog returns (default: cancel)')
+  .option('--save-path <path>', 'File showSaveDialog returns (default: cancel)')
+  .option('--message-box-response <index>', "Button index showMessageBox returns (default: the box's cancelId, or 0)")
+  .addHelpText('after', `
+Stubs every dialog.show*Dialog, showMessageBox and showErrorBox function, sync
+and async. Running it again replaces the previous responses. Paths are resolved
+relative to the current directory.
+
+Code that copied a dialog function before the stub was installed, e.g.
+\`const { showOpenDialog } = dialog\`, still calls the real one.`)
+  .action(async (options) => {
+    const messageBoxResponse = options.messageBoxResponse !== undefined
+      ? parseIntOption(options.messageBoxResponse, '--message-box-response', 'Use a button index, e.g. 1', { min: 0 })
+      : undefined;
+
+    try {
+      const result = await stubDialog({
+        ...clientOptions(),
+        openPaths: options.openPaths?.split(',').filter(Boolean),
+        savePath: options.savePath,
+        messageBoxResponse,
+      });
+      if (!result.success) {
+        console.error('Failed to stub dialogs:', result.error);
+        process.exit(1);
+      }
+      console.log('Native dialogs stubbed');
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+stub
+  .command('shell')
+  .description('Record shell calls instead of running them')
+  .option('--capture-open-external', 'Record shell.openExternal calls instead of opening a browser')
+  .action(async (options) => {
+    if (!options.captureOpenExternal) {
+      console.error('Error: Nothing to stub. Pass --capture-open-external');
+      process.exit(1);
+    }
+
+    try {
+      const result = await stubShell({ ...clientOptions(), captureOpenExternal: true });
+      if (!result.success) {
+        console.error('Failed to stub shell:', result.error);
+        process.exit(1);
+      }
+      console.log('shell.openExternal calls are now recorded instead of opened');
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+stub
+  .command('list')
+  .description('Show the active stubs and the calls they intercepted')
+  .option('--json', 'Print the stubs and calls as JSON')
+  .action(async () => {
+    try {
+      const result = await getStubs(clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to list stubs:', result.error);
+        process.exit(1);
+      }
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(result.data, null, 2));
+        return;
+      }
+
+      const { dialog, shell, calls } = result.data;
+      if (!dialog && !shell) {
+        console.log('No stubs active.');
+        return;
+      }
+      if (dialog) {
+        console.log(`dialog: ${JSON.stringify(dialog)}`);
+      }
+      if (shell) {
+        console.log(`shell: ${JSON.stringify(shell)}`);
+      }
+
+      console.log();
+      if (calls.length === 0) {
+        console.log('No calls intercepted yet.');
+        return;
+      }
+      printTable([
+        ['TIME', 'METHOD', 'ARGS', 'RESULT'],
+        ...calls.map(call => [
+          call.timestamp.slice(11, 23),
+          call.method,
+          JSON.stringify(call.args),
+          JSON.stringify(call.result),
+        ]),
+      ]);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+stub
+  .command('clear')
+  .description('Restore the real dialog and shell functions and forget recorded calls')
+  .action(async () => {
+    try {
+      const result = await clearStubs(clientOptions());
+      if (!result.success) {
+        console.error('Failed to clear stubs:', result.error);
+        process.exit(1);
+      }
+      console.log('Stubs cleared');
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Route commands - mock or fail the app's network requests
+const route = program
+  .command('route')
+  .description('Mock or fail network requests from the app\'s windows')
+  .addHelpText('after', `
+Example:
+  $ pw-electron route add "**/api/users" --fulfill users.json
+  $ pw-electron route add "**/api/save" --status 500
+  $ pw-electron route abort "**/analytics/**"
+  $ pw-electron route list
+  $ pw-electron route clear "**/api/users"
+
+Routes are kept by the session server and apply to every window, including
+windows opened later and the app relaunched by --restart-on-crash. When
+several routes match a request, the one added last wins. Requests made before
+a route is added aren't affected.`);
+
+route
+  .command('add')
+  .description('Answer requests matching a URL glob with a canned response')
+  .argument('<url-glob>', 'URL glob, e.g. "**/api/users*"')
+  .option('--fulfill <file>', 'File whose contents become the response body')
+  .option('--status <code>', 'Response status (default: 200)')
+  .option('--content-type <type>', 'Response Content-Type (default: guessed from the file name)')
+  .action(async (url, options) => {
+    if (!options.fulfill && options.status === undefined) {
+      console.error('Error: Nothing to answer with. Pass --fulfill <file>, --status <code> or both');
+      process.exit(1);
+    }
+    const status = options.status !== undefined
+      ? parseIntOption(options.status, '--status', 'Use an HTTP status code, e.g. 404', { min: 100, max: 599 })
+      : undefined;
+    if (options.fulfill && !fs.existsSync(options.fulfill)) {
+      console.error(`Error: File not found: ${options.fulfill}`);
+      process.exit(1);
+    }
+
+    try {
+      const result = await addRoute({
+        url,
+        action: 'fulfill',
+        fulfillPath: options.fulfill,
+        status,
+        contentType: options.contentType,
+      }, clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to add route:', result.error);
+        process.exit(1);
+      }
+      const added = result.data.route;
+      console.log(`Route ${added.id}: ${added.url} -> ${added.status ?? 200}${added.fulfillPath ? ` ${added.fulfillPath}` : ''}`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+route
+  .command('abort')
+  .description('Fail requests matching a URL glob with a network error')
+  .argument('<url-glob>', 'URL glob, e.g. "**/analytics/**"')
+  .option('--error <code>', 'Network error, e.g. failed, timedout, internetdisconnected (default: failed)')
+  .action(async (url, options) => {
+    try {
+      const result = await addRoute({ url, action: 'abort', errorCode: options.error }, clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to add route:', result.error);
+        process.exit(1);
+      }
+      const added = result.data.route;
+      console.log(`Route ${added.id}: ${added.url} -> abort (${added.errorCode ?? 'failed'})`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+route
+  .command('list')
+  .description('List the session\'s routes and how many requests each has handled')
+  .option('--json', 'Print the routes as JSON')
+  .action(async () => {
+    try {
+      const result = await getRoutes(clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to list routes:', result.error);
+        process.exit(1);
+      }
+
+      const { routes } = result.data;
+      if (program.opts().json) {
+        console.log(JSON.stringify(routes, null, 2));
+        return;
+      }
+      if (routes.length === 0) {
+        console.log('No routes. Add one with "pw-electron route add <url-glob> --fulfill <file>".');
+        return;
+      }
+
+      printTable([
+        ['ID', 'URL', 'ACTION', 'HITS'],
+        ...routes.map(r => [
+          String(r.id),
+          r.url,
+          r.action === 'abort'
+            ? `abort (${r.errorCode ?? 'failed'})`
+            : `${r.status ?? 200}${r.fulfillPath ? ` ${r.fulfillPath}` : ''}`,
+          String(r.hits),
+        ]),
+      ]);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+route
+  .command('clear')
+  .description('Remove every route, or only those for one URL glob')
+  .argument('[url-glob]', 'Only remove routes added for exactly this glob')
+  .action(async (url) => {
+    try {
+      const result = await clearRoutes(url, clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to clear routes:', result.error);
+        process.exit(1);
+      }
+      const { removed } = result.data;
+      console.log(`Removed ${removed} route${removed === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// HAR commands - record network traffic for offline replay
+const har = program
+  .command('har')
+  .description('Record the app\'s network traffic to a HAR file')
+  .addHelpText('after', `
+Example:
+  $ pw-electron har start
+  $ pw-electron -e "await window.click('text=Sign in')"
+  $ pw-electron har stop flows/login.har
+  $ pw-electron open -p ./my-electron-app --replay-har flows/login.har
+
+Every window's http(s) requests and responses between start and stop are
+recorded, with their bodies. Replay the file with "open --replay-har" to run
+the same flow offline.`);
+
+har
+  .command('start')
+  .description('Start recording network traffic')
+  .action(async () => {
+    try {
+      const result = await startHar(clientOptions());
+      if (result.success) {
+        console.log('HAR recording started');
+      } else {
+        console.error('Failed to start HAR recording:', result.error);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+har
+  .command('stop')
+  .description('Stop recording and save the HAR file')
+  .argument('<output>', 'Output path for the .har file')
+  .action(async (output) => {
+    try {
+      const result = await stopHar(output, clientOptions());
+      if (!result.success || !result.data) {
+        console.error('Failed to stop HAR recording:', result.error);
+        process.exit(1);
+      }
+      console.log(`HAR with ${result.data.entries} request${result.data.entries === 1 ? '' : 's'} saved to: ${result.data.path}`);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Add an 'eval' command as an alternative to -e
+program
+  .command('eval <script>')
+  .description('Execute an inline Playwright script against the running app')
+  .option('-w, --window <selector>', 'Window to bind as `window`: index, or regex matched against title/URL')
+  .option('--json', 'Print the result as tagged JSON')
+  .option('--raw', 'Print the result without formatting (strings and buffers as-is)')
+  .option('-t, --timeout <ms>', 'Cancel the script if it runs longer than this many milliseconds')
+  .addHelpText('after', `
+Example:
+  $ pw-electron eval "await window.click('button')"
+  $ pw-electron eval "return await window.title()"
+  $ pw-electron eval --window 1 "return window.url()"
+  $ cat flow.js | pw-electron eval -
+  $ pw-electron eval --json "return new Map([['a', 1n]])"
+  $ pw-electron eval --timeout 5000 "await window.waitForSelector('#done')"
+
+Pass "-" to read the script from stdin. Stdin scripts may start with import
+declarations, resolved relative to the current directory.
+
+Scripts run one at a time, in the order they arrive, unless the session was
+opened with --concurrent-scripts. Ctrl+C or --timeout cancels the script on the
+server: its next call on \`app\` or \`window\` throws. A Playwright call already
+in flight keeps running until its own timeout.
+
+Results are pretty-printed; strings are printed as-is. Values JSON can't
+represent (Locators, handles, Buffers, Maps, BigInts, circular objects...)
+are encoded with a "$type" tag in --json output.
+
+Exit codes: 0 on success, 1 if the script threw, 2 if the session couldn't
+be reached or rejected the request.
+
+Requires an active session (started with "pw-electron open").`)
+  .action(async (script, options) => {
+    await runEval(script, options.timeout);
+  });
+
+// Run command - execute a script file
+program
+  .command('run <file>')
+  .description('Run a JavaScript or TypeScript script file against the running app')
+  .option('-w, --window <selector>', 'Window to bind as `window`: index, or regex matched against title/URL')
+  .option('--json', 'Print the result as tagged JSON')
+  .option('--raw', 'Print the result without formatting (strings and buffers as-is)')
+  .option('-t, --timeout <ms>', 'Cancel the script if it runs longer than this many milliseconds')
+  .addHelpText('after', `
+Example:
+  $ pw-electron run ./flows/login.js
+  $ pw-electron run ./flows/export.ts --window "Editor"
+  $ pw-electron run ./flows/slow.js --timeout 60000
+
+The script has the same \`app\` and \`window\` scope as eval and may \`return\` a
+value. It may start with import declarations, resolved relative to the script
+file. Errors are reported with the script's own line numbers. TypeScript
+files need the "typescript" package installed in the script's project.
+
+The script is reloaded on every run, but modules it imports are loaded once
+per session; restart the session to pick up edits to them.
+
+Like eval, scripts are queued and can be cancelled with Ctrl+C or --timeout.
+
+Results are pretty-printed; strings are printed as-is. Values JSON can't
+represent (Locators, handles, Buffers, Maps, BigInts, circular objects...)
+are encoded with a "$type" tag in --json output.
+
+Exit codes: 0 on success, 1 if the script threw, 2 if the session couldn't
+be reached or rejected the request.
+
+Requires an active session (started with "pw-electron open").`)
+  .action(async (file, options) => {
+    try {
+      printScriptResult(await runScriptFile(file, scriptOptions(options.timeout)));
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(EXIT_TRANSPORT_ERROR);
+    }
+  });
+
+// Main-eval command - execute a script in the Electron main process
+program
+  .command('main-eval [script]')
+  .description('Execute a script in the Electron main process')
+  .option('-f, --file <path>', 'Read the script from a file')
+  .option('--json', 'Print the result as tagged JSON')
+  .option('--raw', 'Print the result without formatting (strings and buffers as-is)')
+  .option('-t, --timeout <ms>', 'Cancel the script if it runs longer than this many milliseconds')
+  .addHelpText('after', `
+Example:
+  $ pw-electron main-eval "return app.getPath('userData')"
+  $ pw-electron main-eval "return BrowserWindow.getAllWindows()"
+  $ pw-electron main-eval "return ipcMain.eventNames()"
+  $ pw-electron main-eval --file ./debug/state.js
+  $ cat state.js | pw-electron main-eval -
+
+The script runs in the app's main process with every export of the
+"electron" module in scope (app, BrowserWindow, dialog, ipcMain, ...) and may
+\`await\` and \`return\` a value. It can't use import declarations.
+
+Results are printed like eval's. BrowserWindow instances are shown by id,
+title and URL. Scripts share eval's queue, --timeout and Ctrl+C handling.
+
+Exit codes: 0 on success, 1 if the script threw, 2 if the session couldn't
+be reached or rejected the request.
+
+Requires an active session (started with "pw-electron open").`)
+  .action(async (script, options) => {
+    if (!script === !options.file) {
+      console.error('Error: Pass either a script, "-" to read one from stdin, or --file <path>');
+      process.exit(EXIT_TRANSPORT_ERROR);
+    }
+
+    try {
+      getActiveSession(clientOptions().session); // Will throw if no session
+
+      let source: string = script;
+      let displayName = '<main-eval>';
+      if (options.file) {
+        source = fs.readFileSync(options.file, 'utf-8');
+        displayName = path.resolve(options.file);
+      } else if (script === '-') {
+        source = await readStdin();
+        displayName = '<stdin>';
+      }
+      printScriptResult(await evalMainScript(source, { ...scriptOptions(options.timeout), displayName }));
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(EXIT_TRANSPORT_ERROR);
+    }
+  });
+
+// REPL command
+program
+  .command('repl')
+  .description('Start an interactive shell against the running app')
+  .option('-w, --window <selector>', 'Window to bind as `window`: index, or regex matched against title/URL')
+  .addHelpText('after', `
+Example:
+  $ pw-electron repl
+  pw-electron:default> await window.title()
+  pw-electron:default> ctx.button = window.locator('#submit')
+  pw-electron:default> await ctx.button.click()
+
+Each input runs like eval with \`app\`, \`window\` and \`ctx\` in scope, and the value
+of an expression is printed. \`ctx\` persists for the whole session, including
+across eval and run calls. Supports multi-line input, history and tab completion.
+
+Requires an active session (started with "pw-electron open").`)
+  .action(async () => {
+    try {
+      await startRepl(windowTargetOptions());
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Test command - run scenario files against a freshly launched app
+program
+  .command('test <patterns...>')
+  .description('Run test files against a freshly launched Electron app and report the results')
+  .option('-p, --path <electron-path>', 'Path to the Electron application')
+  .option('-a, --args <args...>', 'Arguments to pass to the Electron app')
+  .option('--electron <binary>', 'Electron binary to run a project, app.asar or main script with')
+  .option('--launch-timeout <ms>', 'Timeout for each launch in milliseconds', '30000')
+  .option('-t, --timeout <ms>', 'Fail a test that runs longer than this many milliseconds', '30000')
+  .option('--retries <n>', 'Run a failed test again up to this many times', '0')
+  .option('--isolate', 'Launch the app fresh for every test file, and again for each retry')
+  .option('--screenshot-on-failure', 'Save a screenshot of the window when a test fails')
+  .option('--output <dir>', 'Directory for failure screenshots', 'test-results')
+  .option('--junit <file>', 'Write a JUnit XML report')
+  .option('--json-report <file>', 'Write a JSON report')
+  .option('--headless', 'On Linux without a display, run the app on a private Xvfb')
+  .option('--screen-size <size>', `Xvfb screen size for --headless, WIDTHxHEIGHT[xDEPTH] (default: ${DEFAULT_SCREEN_SIZE})`)
+  .addHelpText('after', `
+Example:
+  $ pw-electron test ./tests -p ./my-electron-app
+  $ pw-electron test "tests/**/*.test.ts" -p ./my-electron-app --retries 2
+  $ pw-electron test ./tests -p ./my-electron-app --isolate --screenshot-on-failure --junit results.xml
+
+Each file is one test. It runs like a "pw-electron run" script, with \`app\`,
+\`window\`, \`ctx\` and Playwright's \`expect\` in scope, and passes unless it throws:
+
+  // tests/login.test.js
+  await window.fill('#username', 'demo');
+  await window.click('button[type=submit]');
+  await expect(window.locator('.welcome')).toHaveText('Hello, demo');
+
+Directories are searched recursively for *.test.* and *.spec.* files (.js,
+.mjs, .cjs, .ts, .mts or .cts), so helper modules next to the tests aren't run.
+Files and glob patterns are taken as given. Quote glob patterns so the shell
+doesn't expand them.
+
+By default the app is launched once and the tests share it, in file order.
+With --isolate, every attempt gets a fresh launch. A test that passes on a
+retry is reported as flaky.
+
+With --headless on a Linux machine without a display (e.g. a CI runner), the
+tests run on a private Xvfb that is stopped when the run ends.
+
+Exit codes: 0 if every test passed (flaky tests included), 1 otherwise.`)
+  .action(async (patterns: string[], options) => {
+    if (!options.path) {
+      console.error('Error: Please specify the path to the Electron application');
+      console.error('  pw-electron test ./tests -p /path/to/electron/app');
+      process.exit(1);
+    }
+
+    const retries = parseIntOption(options.retries, '--retries', 'Use a number, e.g. 2', { min: 0 });
+    const launchTimeout = parseIntOption(options.launchTimeout, '--launch-timeout', TIMEOUT_HINT);
+    const timeout = parseIntOption(options.timeout, '--timeout', TIMEOUT_HINT);
+    const electronPath = options.electron ? path.resolve(options.electron) : undefined;
+    if (electronPath && !fs.existsSync(electronPath)) {
+      console.error(`Error: Electron binary not found: ${electronPath}`);
+      process.exit(1);
+    }
+
+    try {
+      let env: Record<string, string> | undefined;
+      if (options.headless && needsVirtualDisplay()) {
+        const xvfb = await startXvfb({ screenSize: options.screenSize });
+        process.on('exit', () => stopXvfb(xvfb));
+        env = { DISPLAY: xvfb.display };
+      }
+
+      const report = await runTests({
+        patterns,
+        launch: {
+          executablePath: path.resolve(options.path),
+          electronPath,
+          args: options.args,
+          timeout: launchTimeout,
+          env,
+        },
+        isolate: options.isolate,
+        timeout,
+        retries,
+        screenshotOnFailure: options.screenshotOnFailure,
+        outputDir: options.output,
+        onTestEnd: printTestResult,
+      });
+
+      console.log();
+      console.log(
+        `${report.passed} passed, ${report.failed} failed, ${report.flaky} flaky ` +
+        `(${formatDuration(report.durationMs)})`
+      );
+
+      if (options.junit) {
+        writeJUnitReport(report, options.junit);
+        console.log(`JUnit report written to: ${path.resolve(options.junit)}`);
+      }
+      if (options.jsonReport) {
+        writeJsonReport(report, options.jsonReport);
+        console.log(`JSON report written to: ${path.resolve(options.jsonReport)}`);
+      }
+
+      process.exit(report.failed > 0 ? 1 : 0);
+    } catch (error) {
+      console.error('Test run failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Handle -e option at the program level (for backwards compatibility)
+program.action(async (options) => {
+  if (options.eval) {
+    await runEval(options.eval);
   } else {
     // No command and no -e option, show help
     program.help();
@@ -1,30 +1,79 @@
 import * as http from 'http';
-import { loadSession, isSessionAlive, SessionInfo } from './session.js';
+import * as path from 'path';
+import type { WindowInfo } from './windows.js';
+import type { LogEntry, LogQuery } from './logs.js';
+import type { SerializedValue } from './serialize.js';
+import type { VideoInfo, SavedVideo } from './video.js';
+import type { ScreenshotOptions } from './screenshot.js';
+import type { SnapshotOptions, PageSnapshot } from './snapshot.js';
+import type { DialogStubOptions, ShellStubOptions, StubState } from './stubs.js';
+import type { IpcEntry, IpcQuery } from './ipc.js';
+import type { MenuItemInfo, MenuQuery } from './menus.js';
+import type { RouteOptions, RouteInfo } from './routes.js';
+import {
+  loadSession,
+  clearSession,
+  isSessionAlive,
+  resolveSessionName,
+  describeEndpoint,
+  DEFAULT_SESSION_NAME,
+  SessionInfo,
+} from './session.js';
 
 export interface ClientResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  /**
+   * What failed: `script` when the script itself threw, `server` when the
+   * session server rejected the request, `transport` when it couldn't be reached,
+   * `cancelled` when the request was aborted through its signal
+   */
+  errorKind?: 'script' | 'server' | 'transport' | 'cancelled';
+}
+
+export interface ScriptResult {
+  success: boolean;
+  result: SerializedValue;
+}
+
+export interface ClientOptions {
+  /** Name of the session to connect to (defaults to "default") */
+  session?: string;
+}
+
+export interface WindowTargetOptions extends ClientOptions {
+  /** Window to target: an index, or a regex matched against title and URL */
+  window?: string;
+}
+
+export interface ScriptOptions extends WindowTargetOptions {
+  /** Cancel the script on the server if it runs longer than this many milliseconds */
+  timeout?: number;
+  /** Abort the request; the server cancels the script when the client disconnects */
+  signal?: AbortSignal;
 }
 
 /**
- * Make an HTTP request to the session server
+ * Send an HTTP request to the session server
  */
-async function request<T>(
+async function send<T>(
   session: SessionInfo,
   method: string,
   path: string,
-  body?: Record<string, unknown>
+  body?: Record<string, unknown>,
+  signal?: AbortSignal
 ): Promise<ClientResponse<T>> {
   return new Promise((resolve) => {
     const data = body ? JSON.stringify(body) : undefined;
     
     const req = http.request({
-      hostname: '127.0.0.1',
-      port: session.port,
+      ...(session.socket ? { socketPath: session.socket } : { hostname: '127.0.0.1', port: session.port }),
       path,
       method,
+      signal,
       headers: {
+        'Authorization': `Bearer ${session.token}`,
         'Content-Type': 'application/json',
         ...(data ? { 'Content-Length': Buffer.byteLength(data) } : {}),
       },
@@ -37,16 +86,24 @@ async function request<T>(
           if (res.statusCode === 200) {
             resolve({ success: true, data: parsed });
           } else {
-            resolve({ success: false, error: parsed.error || 'Request failed' });
+            resolve({
+              success: false,
+              error: parsed.error || 'Request failed',
+              errorKind: parsed.scriptError ? 'script' : 'server',
+            });
           }
         } catch {
-          resolve({ success: false, error: 'Invalid response' });
+          resolve({ success: false, error: 'Invalid response', errorKind: 'transport' });
         }
       });
     });
 
     req.on('error', (error) => {
-      resolve({ success: false, error: `Connection failed: ${error.message}` });
+      if (signal?.aborted) {
+        resolve({ success: false, error: 'Cancelled', errorKind: 'cancelled' });
+        return;
+      }
+      resolve({ success: false, error: `Connection failed: ${error.message}`, errorKind: 'transport' });
     });
 
     if (data) {
@@ -57,56 +114,462 @@ async function request<T>(
 }
 
 /**
- * Get the active session or throw if none exists
+ * Make an HTTP request to the session server. When the server can't be
+ * reached, the session is probed to tell a stale session from a busy one.
  */
-export function getActiveSession(): SessionInfo {
-  const session = loadSession();
+async function request<T>(
+  session: SessionInfo,
+  method: string,
+  path: string,
+  body?: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ClientResponse<T>> {
+  const response = await send<T>(session, method, path, body, signal);
+  if (response.errorKind !== 'transport') {
+    return response;
+  }
+  const liveness = await probeSession(session);
+  if (liveness === 'alive') {
+    return response;
+  }
+  return { ...response, error: describeUnavailableSession(session, liveness) };
+}
+
+/**
+ * Check whether a session's server is really running: its process exists and
+ * its server answers with the session's token and pid. A pid alone can be
+ * recycled by an unrelated process after the server died.
+ *
+ * Returns `unresponsive` when the server exists but didn't answer in time.
+ */
+export async function probeSession(
+  session: SessionInfo,
+  timeout = 2000
+): Promise<'alive' | 'dead' | 'unresponsive'> {
+  if (!isSessionAlive(session)) {
+    return 'dead';
+  }
+  const health = await send<{ pid: number }>(session, 'GET', '/health', undefined, AbortSignal.timeout(timeout));
+  if (health.success) {
+    return health.data?.pid === session.pid ? 'alive' : 'dead';
+  }
+  return health.errorKind === 'cancelled' ? 'unresponsive' : 'dead';
+}
+
+function openHint(sessionName: string): string {
+  return sessionName === DEFAULT_SESSION_NAME
+    ? '  pw-electron open -p /path/to/electron/app'
+    : `  pw-electron open -p /path/to/electron/app --session ${sessionName}`;
+}
+
+/**
+ * Explain why a session's server can't be used. A dead session's file is removed.
+ */
+function describeUnavailableSession(session: SessionInfo, liveness: 'dead' | 'unresponsive'): string {
+  if (liveness === 'unresponsive') {
+    return `Session "${session.name}" is not responding (pid ${session.pid}, ${describeEndpoint(session)})`;
+  }
+  clearSession(session.name);
+  return `Session "${session.name}" exists but its server is not running (removed the stale session). ` +
+    'Start a new session with:\n' +
+    openHint(session.name);
+}
+
+/**
+ * Get the active session or throw if none exists.
+ *
+ * Only checks that the session's process exists; use getLiveSession to also
+ * check that its server answers.
+ */
+export function getActiveSession(name?: string): SessionInfo {
+  const sessionName = resolveSessionName(name);
+  const session = loadSession(sessionName);
   
   if (!session) {
     throw new Error(
-      'No active session found. Start one with:\n' +
-      '  pw-electron open -p /path/to/electron/app'
+      `No active session "${sessionName}" found. Start one with:\n` +
+      openHint(sessionName)
     );
   }
   
   if (!isSessionAlive(session)) {
     throw new Error(
-      'Session exists but the process is not running. Start a new session with:\n' +
-      '  pw-electron open -p /path/to/electron/app'
+      `Session "${sessionName}" exists but the process is not running. Start a new session with:\n` +
+      openHint(sessionName)
     );
   }
   
   return session;
 }
 
+/**
+ * Get the active session, pinging its server first. Throws if none exists, or
+ * if its server is gone (removing the stale session) or not responding.
+ */
+export async function getLiveSession(name?: string): Promise<SessionInfo> {
+  const session = getActiveSession(name);
+  const liveness = await probeSession(session);
+  if (liveness !== 'alive') {
+    throw new Error(describeUnavailableSession(session, liveness));
+  }
+  return session;
+}
+
+/**
+ * Wait until a session is running and its server answers requests
+ */
+export async function waitForSession(
+  options: ClientOptions & { timeout?: number } = {}
+): Promise<SessionInfo> {
+  const sessionName = resolveSessionName(options.session);
+  const timeout = options.timeout ?? 30000;
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    // /status calls into the app, which may hang; don't wait past the deadline for it
+    const remaining = () => Math.max(0, deadline - Date.now());
+    const session = loadSession(sessionName);
+    if (session && !session.starting && await probeSession(session, Math.min(2000, remaining())) === 'alive') {
+      const status = await send(session, 'GET', '/status', undefined, AbortSignal.timeout(remaining()));
+      if (status.success) {
+        return session;
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+
+  throw new Error(`Session "${sessionName}" did not become ready within ${timeout}ms`);
+}
+
 /**
  * Get status of the running app
  */
-export async function getStatus(): Promise<ClientResponse> {
-  const session = getActiveSession();
+export async function getStatus(options: ClientOptions = {}): Promise<ClientResponse> {
+  const session = getActiveSession(options.session);
   return request(session, 'GET', '/status');
 }
 
 /**
  * Execute a script against the running app
  */
-export async function evalScript(script: string): Promise<ClientResponse> {
-  const session = getActiveSession();
-  return request(session, 'POST', '/eval', { script });
+export async function evalScript(script: string, options: ScriptOptions = {}): Promise<ClientResponse<ScriptResult>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/eval', { script, window: options.window, timeout: options.timeout }, options.signal);
+}
+
+/**
+ * Execute a script in the Electron main process, with the `electron` module's
+ * exports (`app`, `BrowserWindow`, `dialog`, `ipcMain`, ...) in scope
+ */
+export async function evalMainScript(
+  script: string,
+  options: ScriptOptions & { displayName?: string } = {}
+): Promise<ClientResponse<ScriptResult>> {
+  const session = getActiveSession(options.session);
+  return request(
+    session,
+    'POST',
+    '/main-eval',
+    { script, displayName: options.displayName, timeout: options.timeout },
+    options.signal
+  );
+}
+
+/**
+ * Run a script file against the running app.
+ *
+ * The file is read by the session server, so imports are resolved relative to it.
+ */
+export async function runScriptFile(file: string, options: ScriptOptions = {}): Promise<ClientResponse<ScriptResult>> {
+  const session = getActiveSession(options.session);
+  return request(
+    session,
+    'POST',
+    '/run',
+    { file: path.resolve(file), window: options.window, timeout: options.timeout },
+    options.signal
+  );
+}
+
+/**
+ * Run script source (e.g. read from stdin) against the running app as a module.
+ *
+ * Imports are resolved relative to the current working directory.
+ */
+export async function runScriptSource(source: string, options: ScriptOptions = {}): Promise<ClientResponse<ScriptResult>> {
+  const session = getActiveSession(options.session);
+  return request(
+    session,
+    'POST',
+    '/run',
+    { source, cwd: process.cwd(), window: options.window, timeout: options.timeout },
+    options.signal
+  );
+}
+
+export interface ScreenshotResult {
+  success: boolean;
+  type: 'png' | 'jpeg';
+  /** Where the image was saved, when an output path was given */
+  path?: string;
+  /** The image, base64-encoded, when no output path was given */
+  base64?: string;
+}
+
+/**
+ * Take a screenshot, saving it to `output` or returning it base64-encoded when `output` is omitted
+ */
+export async function takeScreenshot(
+  output?: string,
+  options: WindowTargetOptions & ScreenshotOptions = {}
+): Promise<ClientResponse<ScreenshotResult>> {
+  const { session: sessionName, window, ...screenshotOptions } = options;
+  const session = getActiveSession(sessionName);
+  return request(session, 'POST', '/screenshot', { output, window, options: screenshotOptions });
+}
+
+/**
+ * Get the accessibility tree of a window, with suggested locators for its interactive elements
+ */
+export async function takeSnapshot(
+  options: WindowTargetOptions & SnapshotOptions = {}
+): Promise<ClientResponse<PageSnapshot>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/snapshot', {
+    window: options.window,
+    selector: options.selector,
+    interestingOnly: options.interestingOnly,
+  });
+}
+
+/**
+ * List the windows of the running app
+ */
+export async function getWindows(options: ClientOptions = {}): Promise<ClientResponse<{ windows: WindowInfo[] }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'GET', '/windows');
 }
 
 /**
- * Take a screenshot
+ * Wait until a new window matching a selector opens
  */
-export async function takeScreenshot(output: string): Promise<ClientResponse> {
-  const session = getActiveSession();
-  return request(session, 'POST', '/screenshot', { output });
+export async function waitForNewWindow(
+  options: ClientOptions & { match?: string; timeout?: number } = {}
+): Promise<ClientResponse<{ window: WindowInfo }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/wait-window', { match: options.match, timeout: options.timeout });
 }
 
 /**
- * Close the running app
+ * Get IPC traffic recorded by a session opened with `captureIpc`
  */
-export async function closeApp(): Promise<ClientResponse> {
-  const session = getActiveSession();
+export async function getIpcMessages(
+  options: ClientOptions & IpcQuery = {}
+): Promise<ClientResponse<{ messages: IpcEntry[] }>> {
+  const session = getActiveSession(options.session);
+  const params = new URLSearchParams();
+  if (options.channel) params.set('channel', options.channel);
+  if (options.after !== undefined) params.set('after', String(options.after));
+  const query = params.toString();
+  return request(session, 'GET', query ? `/ipc?${query}` : '/ipc');
+}
+
+/**
+ * Call an `ipcMain.handle` or `webContents.ipc.handle` channel directly, as if
+ * the first window had invoked it
+ */
+export async function invokeIpc(
+  channel: string,
+  args: unknown[] = [],
+  options: ScriptOptions = {}
+): Promise<ClientResponse<ScriptResult>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/ipc/invoke', { channel, args, timeout: options.timeout }, options.signal);
+}
+
+/**
+ * Get the item tree of the application menu, the last context menu, or a tray menu
+ */
+export async function getMenu(
+  options: ClientOptions & MenuQuery = {}
+): Promise<ClientResponse<{ items: MenuItemInfo[] }>> {
+  const session = getActiveSession(options.session);
+  const params = new URLSearchParams();
+  if (options.source) params.set('source', options.source);
+  if (options.tray !== undefined) params.set('tray', String(options.tray));
+  const query = params.toString();
+  return request(session, 'GET', query ? `/menu?${query}` : '/menu');
+}
+
+/**
+ * Click a menu item by its path of labels, e.g. "File > Export > PDF"
+ */
+export async function clickMenuItem(
+  itemPath: string,
+  options: ClientOptions & MenuQuery = {}
+): Promise<ClientResponse<{ path: string[] }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/menu/click', {
+    path: itemPath.split('>').map(segment => segment.trim()).filter(Boolean),
+    source: options.source,
+    tray: options.tray,
+  });
+}
+
+/**
+ * Start recording a Playwright trace of the running app
+ */
+export async function startTrace(
+  options: ClientOptions & { screenshots?: boolean; snapshots?: boolean } = {}
+): Promise<ClientResponse> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/trace/start', {
+    screenshots: options.screenshots,
+    snapshots: options.snapshots,
+  });
+}
+
+/**
+ * Stop recording the trace and save it to a zip file
+ */
+export async function stopTrace(output: string, options: ClientOptions = {}): Promise<ClientResponse> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/trace/stop', { output: path.resolve(output) });
+}
+
+/**
+ * List the video of every window opened during the session
+ */
+export async function getVideos(options: ClientOptions = {}): Promise<ClientResponse<{ videos: VideoInfo[] }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'GET', '/videos');
+}
+
+/**
+ * Save a window's video, or with `all`, every window's video into a directory
+ */
+export async function saveVideo(
+  output: string,
+  options: WindowTargetOptions & { all?: boolean; finalize?: boolean } = {}
+): Promise<ClientResponse<{ videos: SavedVideo[] }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/video/save', {
+    output: path.resolve(output),
+    window: options.window,
+    all: options.all,
+    finalize: options.finalize,
+  });
+}
+
+/**
+ * Answer the app's native dialogs with canned responses instead of showing them
+ */
+export async function stubDialog(options: ClientOptions & DialogStubOptions = {}): Promise<ClientResponse> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/stub/dialog', {
+    openPaths: options.openPaths?.map(file => path.resolve(file)),
+    savePath: options.savePath ? path.resolve(options.savePath) : undefined,
+    messageBoxResponse: options.messageBoxResponse,
+  });
+}
+
+/**
+ * Record the app's shell calls (e.g. shell.openExternal) instead of running them
+ */
+export async function stubShell(options: ClientOptions & ShellStubOptions = {}): Promise<ClientResponse> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/stub/shell', { captureOpenExternal: options.captureOpenExternal });
+}
+
+/**
+ * Get the active stubs and the calls they intercepted
+ */
+export async function getStubs(options: ClientOptions = {}): Promise<ClientResponse<StubState>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'GET', '/stubs');
+}
+
+/**
+ * Restore every stubbed function and forget the recorded calls
+ */
+export async function clearStubs(options: ClientOptions = {}): Promise<ClientResponse> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/stubs/clear');
+}
+
+/**
+ * Mock or fail the app's requests matching a URL glob, for the rest of the session
+ */
+export async function addRoute(
+  route: RouteOptions,
+  options: ClientOptions = {}
+): Promise<ClientResponse<{ route: RouteInfo }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/routes', {
+    ...route,
+    fulfillPath: route.fulfillPath ? path.resolve(route.fulfillPath) : undefined,
+  });
+}
+
+/**
+ * List the session's routes and how many requests each has handled
+ */
+export async function getRoutes(options: ClientOptions = {}): Promise<ClientResponse<{ routes: RouteInfo[] }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'GET', '/routes');
+}
+
+/**
+ * Remove every route, or only those for one URL glob
+ */
+export async function clearRoutes(
+  url?: string,
+  options: ClientOptions = {}
+): Promise<ClientResponse<{ removed: number }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/routes/clear', { url });
+}
+
+/**
+ * Start recording the app's network traffic
+ */
+export async function startHar(options: ClientOptions = {}): Promise<ClientResponse> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/har/start');
+}
+
+/**
+ * Stop recording network traffic and save it to a HAR file
+ */
+export async function stopHar(
+  output: string,
+  options: ClientOptions = {}
+): Promise<ClientResponse<{ path: string; entries: number }>> {
+  const session = getActiveSession(options.session);
+  return request(session, 'POST', '/har/stop', { output: path.resolve(output) });
+}
+
+/**
+ * Close the running app, or detach from it if the session was attached over CDP
+ */
+export async function closeApp(
+  options: ClientOptions = {}
+): Promise<ClientResponse<{ message: string; detached?: boolean }>> {
+  const session = getActiveSession(options.session);
   return request(session, 'POST', '/close');
 }
+
+/**
+ * Get buffered logs from the running app
+ */
+export async function getLogs(
+  options: ClientOptions & LogQuery = {}
+): Promise<ClientResponse<{ logs: LogEntry[] }>> {
+  const session = getActiveSession(options.session);
+  const params = new URLSearchParams();
+  if (options.level) params.set('level', options.level);
+  if (options.since) params.set('since', options.since);
+  if (options.after !== undefined) params.set('after', String(options.after));
+  const query = params.toString();
+  return request(session, 'GET', query ? `/logs?${query}` : '/logs');
+}
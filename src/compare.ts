@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CompareOptions {
+  /** Per-pixel color difference threshold, 0 to 1; smaller is more sensitive (default 0.1) */
+  threshold?: number;
+  /** Count anti-aliased pixels as differences instead of ignoring them */
+  includeAA?: boolean;
+  /** Number of differing pixels to tolerate (default 0) */
+  maxDiffPixels?: number;
+  /** Ratio of differing pixels to tolerate, 0 to 1 */
+  maxDiffRatio?: number;
+  /** Regions to leave out of the comparison */
+  ignoreRegions?: Region[];
+  /** Where to write the diff image on mismatch (default: `<baseline>-diff.png`) */
+  diffPath?: string;
+}
+
+export interface CompareResult {
+  match: boolean;
+  diffPixels: number;
+  diffRatio: number;
+  /** Why the images don't match, when they don't */
+  reason?: string;
+  /** Diff image highlighting changed pixels, written on mismatch */
+  diffPath?: string;
+  /** The new screenshot, written next to the baseline on mismatch */
+  actualPath?: string;
+}
+
+/** Comparison options as given on the command line */
+export interface CompareFlags {
+  threshold?: string;
+  maxDiffPixels?: string;
+  maxDiffRatio?: string;
+  ignoreRegion?: string[];
+}
+
+/**
+ * Parse an "x,y,width,height" region option
+ */
+export function parseRegion(value: string, flag: string): Region {
+  const [x, y, width, height] = value.split(',').map(Number);
+  if ([x, y, width, height].some(n => n === undefined || isNaN(n))) {
+    throw new Error(`Invalid ${flag} "${value}". Use x,y,width,height, e.g. 0,0,800,600`);
+  }
+  return { x, y, width, height };
+}
+
+/**
+ * Parse a number option, or return undefined if it wasn't given
+ */
+function parseNumberFlag(
+  value: string | undefined,
+  flag: string,
+  valid: (n: number) => boolean,
+  usage: string
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const n = value.trim() === '' ? NaN : Number(value);
+  if (!Number.isFinite(n) || !valid(n)) {
+    throw new Error(`Invalid ${flag} "${value}". ${usage}`);
+  }
+  return n;
+}
+
+/**
+ * Parse and check the comparison options given on the command line
+ */
+export function parseCompareOptions(flags: CompareFlags): CompareOptions {
+  const isRatio = (n: number) => n >= 0 && n <= 1;
+  return {
+    threshold: parseNumberFlag(flags.threshold, '--threshold', isRatio, 'Use a number from 0 to 1, e.g. 0.1'),
+    maxDiffPixels: parseNumberFlag(
+      flags.maxDiffPixels,
+      '--max-diff-pixels',
+      n => Number.isInteger(n) && n >= 0,
+      'Use a whole number of pixels, e.g. 50'
+    ),
+    maxDiffRatio: parseNumberFlag(flags.maxDiffRatio, '--max-diff-ratio', isRatio, 'Use a number from 0 to 1, e.g. 0.01'),
+    ignoreRegions: (flags.ignoreRegion ?? []).map(region => parseRegion(region, '--ignore-region')),
+  };
+}
+
+/**
+ * Paint a region of an image a solid color, so it compares equal in both images
+ */
+function blankRegion(image: PNG, region: Region): void {
+  const left = Math.max(0, Math.floor(region.x));
+  const top = Math.max(0, Math.floor(region.y));
+  const right = Math.min(image.width, Math.ceil(region.x + region.width));
+  const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const offset = (y * image.width + x) * 4;
+      image.data[offset] = 255;
+      image.data[offset + 1] = 0;
+      image.data[offset + 2] = 255;
+      image.data[offset + 3] = 255;
+    }
+  }
+}
+
+/**
+ * Get the sibling path of a baseline with a suffix, e.g. home.png -> home-diff.png
+ */
+function siblingPath(baselinePath: string, suffix: string): string {
+  const { dir, name } = path.parse(baselinePath);
+  return path.join(dir, `${name}-${suffix}.png`);
+}
+
+/**
+ * Compare a PNG screenshot against a baseline PNG file.
+ *
+ * On mismatch, a diff image and the actual screenshot are written next to the
+ * baseline. On match, any diff and actual files left by an earlier run are removed.
+ */
+export async function compareWithBaseline(
+  actualPng: Buffer,
+  baselinePath: string,
+  options: CompareOptions = {}
+): Promise<CompareResult> {
+  const diffPath = options.diffPath ?? siblingPath(baselinePath, 'diff');
+  const actualPath = siblingPath(baselinePath, 'actual');
+
+  if (!fs.existsSync(baselinePath)) {
+    throw new Error(`Baseline ${baselinePath} does not exist. Create it with --update-baselines.`);
+  }
+  const baselinePng = await fs.promises.readFile(baselinePath);
+
+  const actual = PNG.sync.read(actualPng);
+  const baseline = PNG.sync.read(baselinePng);
+  const totalPixels = baseline.width * baseline.height;
+
+  const fail = async (result: Omit<CompareResult, 'match' | 'actualPath'>): Promise<CompareResult> => {
+    await fs.promises.writeFile(actualPath, actualPng);
+    return { match: false, actualPath, ...result };
+  };
+
+  if (actual.width !== baseline.width || actual.height !== baseline.height) {
+    return fail({
+      diffPixels: totalPixels,
+      diffRatio: 1,
+      reason: `Size differs: expected ${baseline.width}x${baseline.height}, got ${actual.width}x${actual.height}`,
+    });
+  }
+
+  for (const region of options.ignoreRegions ?? []) {
+    blankRegion(actual, region);
+    blankRegion(baseline, region);
+  }
+
+  const diff = new PNG({ width: baseline.width, height: baseline.height });
+  const diffPixels = pixelmatch(baseline.data, actual.data, diff.data, baseline.width, baseline.height, {
+    threshold: options.threshold ?? 0.1,
+    includeAA: options.includeAA ?? false,
+  });
+  const diffRatio = totalPixels === 0 ? 0 : diffPixels / totalPixels;
+
+  const allowed = Math.max(
+    options.maxDiffPixels ?? 0,
+    Math.floor((options.maxDiffRatio ?? 0) * totalPixels)
+  );
+
+  if (diffPixels > allowed) {
+    await fs.promises.writeFile(diffPath, PNG.sync.write(diff));
+    return fail({
+      diffPixels,
+      diffRatio,
+      diffPath,
+      reason: `${diffPixels} pixels (${(diffRatio * 100).toFixed(2)}%) differ, ${allowed} allowed`,
+    });
+  }
+
+  await fs.promises.rm(diffPath, { force: true });
+  await fs.promises.rm(actualPath, { force: true });
+  return { match: true, diffPixels, diffRatio };
+}
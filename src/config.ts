@@ -0,0 +1,201 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { ElectronApplication, Page } from 'playwright';
+
+export const CONFIG_FILE_NAMES = ['pw-electron.config.json', 'pw-electron.config.js', 'pw-electron.config.mjs'];
+
+export interface LaunchHookContext {
+  /** Session the app is (or will be) running under */
+  session: string;
+  appPath: string;
+  /** The launched app; only set for post-launch hooks */
+  app?: ElectronApplication;
+  /** The app's first window; only set for post-launch hooks */
+  window?: Page;
+}
+
+/**
+ * A shell command, or (in a .js config) a function that may return a promise
+ */
+export type LaunchHook = string | ((context: LaunchHookContext) => unknown);
+
+export interface ProfileConfig {
+  /** Electron app: a project directory, packaged app, executable, app.asar or main script */
+  path?: string;
+  /** Electron binary to run a project, app.asar or main script with */
+  electron?: string;
+  args?: string[];
+  /** Extra environment variables for the app, merged over the current environment */
+  env?: Record<string, string>;
+  /** Working directory for the app */
+  cwd?: string;
+  /** Launch timeout in milliseconds */
+  timeout?: number;
+  /** Passed to the app as --user-data-dir, e.g. to start from a clean profile */
+  userDataDir?: string;
+  /** Port for the session server */
+  port?: number;
+  /** On Linux without a display, run the app on a private Xvfb */
+  headless?: boolean;
+  /** Xvfb screen size for headless mode, WIDTHxHEIGHT[xDEPTH] */
+  screenSize?: string;
+  /** Relaunch the app when its main process or a renderer crashes */
+  restartOnCrash?: boolean;
+  /** How many times to relaunch before ending the session */
+  maxRestarts?: number;
+  /** Answer the app's requests from this HAR file instead of the network */
+  replayHar?: string;
+  /** Run before the app is launched, e.g. a build step */
+  preLaunch?: LaunchHook;
+  /** Run once the first window has loaded and the session server is listening */
+  postLaunch?: LaunchHook;
+}
+
+/**
+ * Top-level settings apply to every profile; a profile's settings override
+ * them, with `env` merged key by key
+ */
+export interface PwElectronConfig extends ProfileConfig {
+  /** Profile used when `open` is run without --profile */
+  defaultProfile?: string;
+  profiles?: Record<string, ProfileConfig>;
+}
+
+export interface ResolvedProfile extends ProfileConfig {
+  /** Profile name, or undefined when only the top-level settings apply */
+  name?: string;
+  /** Config file the profile came from */
+  configFile: string;
+}
+
+/**
+ * Find the config file in a directory or the closest of its parents
+ */
+export function findConfigFile(dir = process.cwd()): string | undefined {
+  let current = path.resolve(dir);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const file = path.join(current, name);
+      if (fs.existsSync(file)) {
+        return file;
+      }
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Read a config file. JSON files are parsed; .js and .mjs files are imported
+ * and their default export is used.
+ */
+export async function loadConfig(file: string): Promise<PwElectronConfig> {
+  let config: unknown;
+  if (file.endsWith('.json')) {
+    try {
+      config = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid config file ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  } else {
+    const mod = await import(pathToFileURL(path.resolve(file)).href);
+    config = mod.default ?? mod;
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Invalid config file ${file}: expected an object`);
+  }
+  const profiles = (config as PwElectronConfig).profiles;
+  if (profiles !== undefined && (!profiles || typeof profiles !== 'object' || Array.isArray(profiles))) {
+    throw new Error(`Invalid config file ${file}: "profiles" must be an object`);
+  }
+  return config as PwElectronConfig;
+}
+
+/**
+ * Pick a profile from a config, merged over the top-level settings, with
+ * relative paths resolved against the config file's directory
+ */
+export function resolveProfile(config: PwElectronConfig, configFile: string, name?: string): ResolvedProfile {
+  const { profiles = {}, defaultProfile, ...base } = config;
+  const profileName = name ?? defaultProfile;
+  let profile: ProfileConfig = {};
+  if (profileName !== undefined) {
+    if (!Object.prototype.hasOwnProperty.call(profiles, profileName)) {
+      const available = Object.keys(profiles);
+      throw new Error(
+        `No profile "${profileName}" in ${configFile}` +
+        (available.length ? `. Available: ${available.join(', ')}` : '')
+      );
+    }
+    profile = profiles[profileName];
+  }
+
+  const merged: ProfileConfig = { ...base, ...profile, env: { ...base.env, ...profile.env } };
+  const dir = path.dirname(configFile);
+  const resolve = (value?: string) => (value === undefined ? undefined : path.resolve(dir, value));
+
+  return {
+    ...merged,
+    name: profileName,
+    configFile,
+    path: resolve(merged.path),
+    electron: resolve(merged.electron),
+    cwd: resolve(merged.cwd),
+    userDataDir: resolve(merged.userDataDir),
+    replayHar: resolve(merged.replayHar),
+  };
+}
+
+/**
+ * Parse KEY=VALUE pairs into an environment object
+ */
+export function parseEnvPairs(pairs: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid environment variable "${pair}", expected KEY=VALUE`);
+    }
+    env[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return env;
+}
+
+/**
+ * Run a pre- or post-launch hook. Shell commands run with the app's
+ * environment plus PW_ELECTRON_SESSION, so they can drive the session with
+ * pw-electron; they fail the launch if they exit non-zero.
+ */
+export async function runLaunchHook(
+  hook: LaunchHook,
+  context: LaunchHookContext,
+  options: { cwd?: string; env?: Record<string, string> } = {}
+): Promise<void> {
+  if (typeof hook === 'function') {
+    await hook(context);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(hook, {
+      shell: true,
+      stdio: 'inherit',
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env, PW_ELECTRON_SESSION: context.session },
+    });
+    child.on('error', reject);
+    child.on('exit', (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Hook "${hook}" failed (${signal ?? `exit code ${code}`})`));
+      }
+    });
+  });
+}
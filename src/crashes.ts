@@ -0,0 +1,59 @@
+import type { Page } from 'playwright';
+import type { SessionApp } from './attach.js';
+
+export type CrashKind = 'renderer-crash' | 'main-process-exit';
+
+export interface CrashEvent {
+  timestamp: string;
+  kind: CrashKind;
+  /** Exit code of the main process (main-process exits only) */
+  exitCode: number | null;
+  /** Signal that ended the main process (main-process exits only) */
+  signal: string | null;
+  /** The window whose renderer crashed (renderer crashes only) */
+  window?: { index: number; url: string };
+  /** Whether the session restarted the app afterwards */
+  restarted: boolean;
+}
+
+const crashes: CrashEvent[] = [];
+
+/**
+ * Record a crash, so it can be reported by status
+ */
+export function recordCrash(event: Omit<CrashEvent, 'timestamp' | 'restarted'>): CrashEvent {
+  const crash: CrashEvent = { timestamp: new Date().toISOString(), ...event, restarted: false };
+  crashes.push(crash);
+  return crash;
+}
+
+/**
+ * Get every crash recorded in this session, oldest first
+ */
+export function listCrashes(): CrashEvent[] {
+  return crashes;
+}
+
+/**
+ * Describe a crash in one line
+ */
+export function describeCrash(crash: CrashEvent): string {
+  if (crash.kind === 'renderer-crash') {
+    return `Renderer crashed in window ${crash.window?.index ?? '?'} (${crash.window?.url ?? 'unknown URL'})`;
+  }
+  return `Main process exited unexpectedly (${crash.signal ?? `exit code ${crash.exitCode}`})`;
+}
+
+/**
+ * Call `onCrash` whenever the renderer of one of the app's windows crashes
+ */
+export function watchRendererCrashes(
+  app: SessionApp,
+  onCrash: (window: { index: number; url: string }) => void
+): void {
+  const watch = (page: Page) => {
+    page.on('crash', () => onCrash({ index: app.windows().indexOf(page), url: page.url() }));
+  };
+  app.windows().forEach(watch);
+  app.on('window', watch);
+}
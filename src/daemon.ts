@@ -0,0 +1,73 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import { waitForSession } from './client.js';
+import { clearSession, getSessionLogFile, resolveSessionName, SessionInfo } from './session.js';
+
+export interface DetachOptions {
+  /** Session name the server will register under */
+  session?: string;
+  /** CLI arguments for the server process, e.g. ['open', '-p', './app'] */
+  args: string[];
+  /** How long to wait for the app to load and the server to listen */
+  timeout: number;
+}
+
+/**
+ * Read the last lines of a file, for showing why a daemon failed
+ */
+function tail(file: string, lines = 20): string {
+  try {
+    return fs.readFileSync(file, 'utf-8').trimEnd().split('\n').slice(-lines).join('\n');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Start the session server as a background process and wait until it is ready.
+ *
+ * The server's output goes to a log file under the session directory. Resolves
+ * once the first window has loaded and the server is answering requests;
+ * rejects with the tail of the log if the server exits or times out first.
+ */
+export async function startDetached(options: DetachOptions): Promise<{ session: SessionInfo; logFile: string }> {
+  const sessionName = resolveSessionName(options.session);
+  const logFile = getSessionLogFile(sessionName);
+
+  // Any existing session file is stale (the caller checked it isn't alive)
+  clearSession(sessionName);
+
+  const fd = fs.openSync(logFile, 'w');
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1], ...options.args], {
+    detached: true,
+    stdio: ['ignore', fd, fd],
+    env: { ...process.env, PW_ELECTRON_SESSION: sessionName },
+  });
+  fs.closeSync(fd);
+
+  const exited = new Promise<never>((_, reject) => {
+    child.on('exit', (code, signal) => {
+      reject(new Error(
+        `Session server exited during launch (${signal ?? `code ${code}`}). Log (${logFile}):\n${tail(logFile)}`
+      ));
+    });
+    child.on('error', reject);
+  });
+
+  try {
+    const session = await Promise.race([
+      waitForSession({ session: sessionName, timeout: options.timeout }),
+      exited,
+    ]);
+    child.unref();
+    return { session, logFile };
+  } catch (error) {
+    if (child.exitCode === null) {
+      child.kill();
+    }
+    if (error instanceof Error && !error.message.includes(logFile)) {
+      error.message += `\nLog (${logFile}):\n${tail(logFile)}`;
+    }
+    throw error;
+  }
+}
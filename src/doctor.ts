@@ -0,0 +1,86 @@
+import { spawnSync } from 'child_process';
+import { resolveElectronApp, ElectronResolution } from './electron-launcher.js';
+import { needsVirtualDisplay, findXvfb } from './xvfb.js';
+
+export interface DoctorCheck {
+  status: 'ok' | 'warning' | 'error';
+  message: string;
+}
+
+export interface DoctorReport {
+  appPath: string;
+  /** How the app would be launched, when it could be worked out */
+  resolution?: ElectronResolution;
+  /** Electron version of the binary, when it could be read */
+  electronVersion?: string;
+  checks: DoctorCheck[];
+  /** False if launching would certainly fail */
+  ok: boolean;
+}
+
+/** Oldest Electron major version Playwright can drive */
+const MIN_ELECTRON_MAJOR = 12;
+
+/**
+ * Read the Electron version of a binary by running it as plain Node, which
+ * works for packaged apps too unless their RunAsNode fuse is disabled
+ */
+function readElectronVersion(executable: string): string | undefined {
+  const result = spawnSync(executable, ['-p', 'process.versions.electron'], {
+    env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+    encoding: 'utf-8',
+    timeout: 10000,
+    shell: process.platform === 'win32' && executable.toLowerCase().endsWith('.cmd'),
+  });
+  const version = result.status === 0 ? result.stdout.trim() : '';
+  return /^\d+\.\d+\.\d+/.test(version) ? version : undefined;
+}
+
+/**
+ * Work out how an app would be launched and check for common reasons the
+ * launch would fail, without launching it
+ */
+export function diagnoseApp(appPath: string, electronPath?: string): DoctorReport {
+  const checks: DoctorCheck[] = [];
+  const report: DoctorReport = { appPath, checks, ok: true };
+
+  try {
+    report.resolution = resolveElectronApp(appPath, electronPath);
+  } catch (error) {
+    checks.push({ status: 'error', message: error instanceof Error ? error.message : String(error) });
+    report.ok = false;
+    return report;
+  }
+
+  const { resolution } = report;
+  checks.push(...resolution.checks.map(message => ({ status: 'ok' as const, message })));
+
+  report.electronVersion = readElectronVersion(resolution.executable);
+  if (!report.electronVersion) {
+    checks.push({
+      status: 'warning',
+      message: `Could not read the Electron version of ${resolution.executable} ` +
+        '(running it with ELECTRON_RUN_AS_NODE=1 failed; the RunAsNode fuse may be disabled)',
+    });
+  } else if (parseInt(report.electronVersion, 10) < MIN_ELECTRON_MAJOR) {
+    checks.push({
+      status: 'error',
+      message: `Electron ${report.electronVersion} is too old; Playwright needs Electron ${MIN_ELECTRON_MAJOR} or newer`,
+    });
+    report.ok = false;
+  } else {
+    checks.push({ status: 'ok', message: `Electron ${report.electronVersion}` });
+  }
+
+  if (needsVirtualDisplay()) {
+    checks.push(findXvfb()
+      ? { status: 'ok', message: 'DISPLAY is not set; Xvfb is installed, so run with --headless' }
+      : {
+        status: 'warning',
+        message: 'DISPLAY is not set and Xvfb is not installed, so the app has no screen to open windows on ' +
+          '(install Xvfb and run with --headless)',
+      });
+  }
+
+  return report;
+}
@@ -3,71 +3,285 @@ import * as path from 'path';
 import * as fs from 'fs';
 
 export interface LaunchOptions {
+  /** App to launch: a project directory, packaged app, executable, app.asar or main script */
   executablePath: string;
+  /** Electron binary to run a project, app.asar or main script with */
+  electronPath?: string;
   args?: string[];
   timeout?: number;
   cwd?: string;
   env?: Record<string, string>;
+  /** Record a video of every window into this directory */
+  recordVideo?: {
+    dir: string;
+    size?: { width: number; height: number };
+  };
 }
 
+export type ElectronAppKind = 'executable' | 'packaged' | 'project' | 'asar' | 'script';
+
+export interface ElectronResolution {
+  /** What the app path turned out to be */
+  kind: ElectronAppKind;
+  /** The binary that gets started */
+  executable: string;
+  /** Passed to the binary ahead of the app's own args: the project dir, asar or main script */
+  appArgs: string[];
+  /** Every location that was looked at and what was found there */
+  checks: string[];
+}
+
+/** Executables in packaged apps that aren't the app itself */
+const HELPER_EXECUTABLES = /^(chrome-sandbox|chrome_crashpad_handler|AppRun|elevate\.exe|squirrel\.exe|Update\.exe|Uninstall .*\.exe)$|\.so(\.\d+)*$/;
+
 /**
- * Find the Electron binary in a project's node_modules
+ * Path of the Electron binary inside the electron package, for this platform
  */
-function findElectronBinary(appPath: string): string {
-  const absoluteAppPath = path.resolve(appPath);
-  
-  // Check if the path is already an executable
+function electronDistBinary(): string {
+  if (process.platform === 'darwin') {
+    return 'node_modules/electron/dist/Electron.app/Contents/MacOS/Electron';
+  }
+  return process.platform === 'win32' ? 'node_modules/electron/dist/electron.exe' : 'node_modules/electron/dist/electron';
+}
+
+function isFile(file: string): boolean {
   try {
-    const stat = fs.statSync(absoluteAppPath);
-    if (stat.isFile()) {
-      // It's a file, assume it's the electron binary
-      return absoluteAppPath;
-    }
+    return fs.statSync(file).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(dir: string): boolean {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function isExecutable(file: string): boolean {
+  if (!isFile(file)) {
+    return false;
+  }
+  if (process.platform === 'win32') {
+    return file.toLowerCase().endsWith('.exe');
+  }
+  try {
+    fs.accessSync(file, fs.constants.X_OK);
+    return true;
   } catch {
-    // Path doesn't exist, will error later
-  }
-  
-  // It's a directory, look for electron in node_modules
-  const platform = process.platform;
-  let electronPath: string;
-  
-  if (platform === 'darwin') {
-    electronPath = path.join(absoluteAppPath, 'node_modules/electron/dist/Electron.app/Contents/MacOS/Electron');
-  } else if (platform === 'win32') {
-    electronPath = path.join(absoluteAppPath, 'node_modules/electron/dist/electron.exe');
-  } else {
-    electronPath = path.join(absoluteAppPath, 'node_modules/electron/dist/electron');
-  }
-  
-  if (fs.existsSync(electronPath)) {
-    return electronPath;
-  }
-  
-  throw new Error(
-    `Could not find Electron binary at ${electronPath}. ` +
-    `Make sure 'electron' is installed in the project's node_modules.`
-  );
+    return false;
+  }
+}
+
+/**
+ * Find an Electron binary for an app that doesn't bring its own: the electron
+ * package in node_modules of the directory or any parent (including the
+ * current directory's), then `electron` on the PATH
+ */
+function findSystemElectron(fromDir: string, checks: string[]): string | undefined {
+  const searched = new Set<string>();
+  for (const start of [fromDir, process.cwd()]) {
+    let dir = path.resolve(start);
+    for (;;) {
+      if (!searched.has(dir)) {
+        searched.add(dir);
+        const candidate = path.join(dir, electronDistBinary());
+        if (fs.existsSync(candidate)) {
+          checks.push(`Found Electron in ${path.join(dir, 'node_modules/electron')}`);
+          return candidate;
+        }
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+  }
+  checks.push(`No node_modules/electron in ${fromDir} or its parents`);
+
+  const names = process.platform === 'win32' ? ['electron.exe', 'electron.cmd'] : ['electron'];
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+    for (const name of names) {
+      const candidate = path.join(dir, name);
+      if (isExecutable(candidate) || (name.endsWith('.cmd') && isFile(candidate))) {
+        checks.push(`Found electron on the PATH: ${candidate}`);
+        return candidate;
+      }
+    }
+  }
+  checks.push('No electron on the PATH');
+  return undefined;
+}
+
+/**
+ * Find the app executable of a packaged app directory (electron-builder's
+ * linux-unpacked/win-unpacked, a forge out/<name>-<platform>-<arch> dir, an
+ * extracted AppImage or a macOS .app bundle)
+ */
+function findPackagedExecutable(dir: string): string | undefined {
+  if (dir.endsWith('.app') && isDirectory(path.join(dir, 'Contents/MacOS'))) {
+    const macosDir = path.join(dir, 'Contents/MacOS');
+    const plist = path.join(dir, 'Contents/Info.plist');
+    const bundleExecutable = isFile(plist)
+      ? /<key>CFBundleExecutable<\/key>\s*<string>([^<]+)<\/string>/.exec(fs.readFileSync(plist, 'utf-8'))?.[1]
+      : undefined;
+    if (bundleExecutable && isFile(path.join(macosDir, bundleExecutable))) {
+      return path.join(macosDir, bundleExecutable);
+    }
+    return fs.readdirSync(macosDir).map(name => path.join(macosDir, name)).find(isFile);
+  }
+
+  if (!fs.existsSync(path.join(dir, 'resources/app.asar')) && !isDirectory(path.join(dir, 'resources/app'))) {
+    return undefined;
+  }
+  // The app binary is Electron itself, by far the largest executable next to its helpers
+  const executables = fs.readdirSync(dir)
+    .filter(name => !HELPER_EXECUTABLES.test(name))
+    .map(name => path.join(dir, name))
+    .filter(isExecutable);
+  return executables.sort((a, b) => fs.statSync(b).size - fs.statSync(a).size)[0];
+}
+
+/**
+ * Check that a project's package.json points at a main script that exists
+ */
+function checkProjectMain(dir: string, checks: string[]): void {
+  const packageJson = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8')) as { main?: string };
+  const main = packageJson.main ?? 'index.js';
+  const mainPath = path.resolve(dir, main);
+  const candidates = [mainPath, `${mainPath}.js`, path.join(mainPath, 'index.js')];
+  if (!candidates.some(isFile)) {
+    throw new Error(
+      `package.json in ${dir} has "main": "${main}", but ${mainPath} doesn't exist. ` +
+      'Build the app first, or fix the "main" field.'
+    );
+  }
+  checks.push(`package.json "main" is ${main}${packageJson.main ? '' : ' (the default)'}`);
+}
+
+/**
+ * Search a build output directory (e.g. electron-builder's dist/ or forge's
+ * out/) for packaged apps, preferring ones built for this platform
+ */
+function findPackagedApps(dir: string, depth = 2): string[] {
+  const found: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'node_modules') {
+      continue;
+    }
+    const child = path.join(dir, entry.name);
+    if (findPackagedExecutable(child)) {
+      found.push(child);
+    } else if (depth > 1) {
+      found.push(...findPackagedApps(child, depth - 1));
+    }
+  }
+
+  const platformNames: Record<string, RegExp> = { linux: /linux/i, win32: /win/i, darwin: /mac|darwin|\.app$/i };
+  const forPlatform = found.filter(app => platformNames[process.platform]?.test(path.relative(dir, app)));
+  return forPlatform.length > 0 ? forPlatform : found;
+}
+
+/**
+ * Work out how to launch an app path: a packaged app or its executable, an
+ * Electron project directory, an app.asar or a main script.
+ *
+ * Projects, asar archives and scripts are started with the electron package
+ * from node_modules (of the app or any parent directory), or `electron` on the
+ * PATH, unless `electronPath` names a binary to use instead.
+ */
+export function resolveElectronApp(appPath: string, electronPath?: string): ElectronResolution {
+  const target = path.resolve(appPath);
+  const checks: string[] = [];
+  const fail = (reason: string): never => {
+    throw new Error(checks.length ? `${reason}\nChecked:\n${checks.map(check => `  - ${check}`).join('\n')}` : reason);
+  };
+
+  let override: string | undefined;
+  if (electronPath) {
+    override = path.resolve(electronPath);
+    if (!isExecutable(override)) {
+      fail(`--electron ${electronPath} is not an executable file`);
+    }
+    checks.push(`Using Electron binary ${override}`);
+  }
+  const electronFor = (dir: string) => override ?? findSystemElectron(dir, checks)
+    ?? fail('Could not find an Electron binary to run the app with. Install electron or pass --electron <binary>.');
+
+  if (!fs.existsSync(target)) {
+    fail(`${target} does not exist`);
+  }
+
+  if (isFile(target)) {
+    if (target.endsWith('.asar')) {
+      checks.push(`${target} is an asar archive`);
+      return { kind: 'asar', executable: electronFor(path.dirname(target)), appArgs: [target], checks };
+    }
+    if (/\.[cm]?js$/.test(target)) {
+      checks.push(`${target} is a main script`);
+      return { kind: 'script', executable: electronFor(path.dirname(target)), appArgs: [target], checks };
+    }
+    if (override) {
+      fail(`${target} is an executable; --electron only applies to projects, asar archives and scripts`);
+    }
+    if (!isExecutable(target)) {
+      fail(`${target} is not executable`);
+    }
+    checks.push(`${target} is an executable`);
+    return { kind: 'executable', executable: target, appArgs: [], checks };
+  }
+
+  const packagedExecutable = override ? undefined : findPackagedExecutable(target);
+  if (packagedExecutable) {
+    checks.push(`${target} is a packaged app`);
+    return { kind: 'packaged', executable: packagedExecutable, appArgs: [], checks };
+  }
+
+  if (isFile(path.join(target, 'package.json'))) {
+    checks.push(`${target} has a package.json`);
+    checkProjectMain(target, checks);
+    return { kind: 'project', executable: electronFor(target), appArgs: [target], checks };
+  }
+  checks.push(`No package.json in ${target}`);
+
+  for (const asar of [path.join(target, 'app.asar'), path.join(target, 'resources/app.asar')]) {
+    if (isFile(asar)) {
+      checks.push(`Found ${asar}`);
+      return { kind: 'asar', executable: electronFor(target), appArgs: [asar], checks };
+    }
+  }
+
+  const packagedApps = findPackagedApps(target);
+  if (packagedApps.length === 1) {
+    checks.push(`Found a packaged app in ${packagedApps[0]}`);
+    const resolution = resolveElectronApp(packagedApps[0], electronPath);
+    return { ...resolution, checks: [...checks, ...resolution.checks] };
+  }
+  if (packagedApps.length > 1) {
+    fail(`Found several packaged apps under ${target}, pass one of them with -p:\n${packagedApps.map(app => `    ${app}`).join('\n')}`);
+  }
+  checks.push(`No packaged app (an executable next to resources/app.asar) in ${target} or its subdirectories`);
+
+  return fail(`Don't know how to launch ${target}`);
 }
 
 /**
  * Launch an Electron application using Playwright
  */
 export async function launchElectron(options: LaunchOptions): Promise<ElectronApplication> {
-  const { executablePath, args = [], timeout = 30000, cwd, env } = options;
-
-  const absoluteAppPath = path.resolve(executablePath);
-  const electronBinary = findElectronBinary(executablePath);
-  
-  // If executablePath was a directory, we need to pass the app path as an argument
-  const isDirectory = fs.statSync(absoluteAppPath).isDirectory();
-  const launchArgs = isDirectory ? [absoluteAppPath, ...args] : args;
+  const { executablePath, electronPath, args = [], timeout = 30000, cwd, env, recordVideo } = options;
+  const resolution = resolveElectronApp(executablePath, electronPath);
 
   const app = await electron.launch({
-    executablePath: electronBinary,
-    args: launchArgs,
+    executablePath: resolution.executable,
+    args: [...resolution.appArgs, ...args],
     timeout,
     cwd,
     env: env ? { ...process.env, ...env } as Record<string, string> : undefined,
+    recordVideo,
   });
 
   return app;
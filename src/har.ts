@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BrowserContext, Request } from 'playwright';
+
+/** Entry of a HAR 1.2 log, as far as it is filled in here */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: { name: string; value: string }[];
+    queryString: { name: string; value: string }[];
+    /** Bodies that aren't text are base64-encoded, which Playwright's HAR replay understands */
+    postData?: { mimeType: string; text: string; encoding?: 'base64' };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: { name: string; value: string }[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+const TEXT_MIME_TYPE = /^text\/|[/+](json|javascript|xml)\b|^application\/x-www-form-urlencoded/;
+
+let recording: {
+  context: BrowserContext;
+  entries: Promise<HarEntry | null>[];
+  onRequest: (request: Request) => void;
+} | null = null;
+
+/**
+ * HTTP version of a response, spelled as in HAR. Playwright's API doesn't
+ * expose it, so it is read from the Resource Timing entry in the request's
+ * frame. Falls back to HTTP/1.1 when there is none, e.g. for cross-origin
+ * requests without Timing-Allow-Origin or once the frame has navigated.
+ */
+async function httpVersion(request: Request): Promise<string> {
+  let protocol: string | undefined;
+  try {
+    protocol = await request.frame().evaluate(
+      url => performance.getEntriesByName(url)
+        .map(entry => (entry as { nextHopProtocol?: string }).nextHopProtocol)
+        .filter(Boolean)
+        .pop(),
+      request.url()
+    );
+  } catch {
+    // Service worker requests have no frame, and the frame may be gone
+  }
+  switch (protocol) {
+    case undefined:
+    case 'http/1.1':
+      return 'HTTP/1.1';
+    case 'h2':
+      return 'HTTP/2.0';
+    case 'h3':
+      return 'HTTP/3.0';
+    default:
+      return protocol.toUpperCase();
+  }
+}
+
+/**
+ * Convert a finished request into a HAR entry. Only http(s) traffic is
+ * recorded; the app's own file:// pages aren't.
+ */
+async function toHarEntry(request: Request): Promise<HarEntry | null> {
+  const url = new URL(request.url());
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  const response = await request.response();
+  if (!response) {
+    return null;
+  }
+  const [requestHeaders, responseHeaders, body, version] = await Promise.all([
+    request.headersArray(),
+    response.headersArray(),
+    // Redirect responses have no body
+    response.body().catch(() => null),
+    httpVersion(request),
+  ]);
+  const header = (headers: { name: string; value: string }[], name: string) =>
+    headers.find(entry => entry.name.toLowerCase() === name)?.value ?? '';
+
+  const timing = request.timing();
+  const mimeType = header(responseHeaders, 'content-type');
+  const postData = request.postDataBuffer();
+  const postMimeType = header(requestHeaders, 'content-type');
+  const content: HarEntry['response']['content'] = { size: body?.length ?? 0, mimeType };
+  if (body) {
+    if (TEXT_MIME_TYPE.test(mimeType)) {
+      content.text = body.toString('utf-8');
+    } else {
+      content.text = body.toString('base64');
+      content.encoding = 'base64';
+    }
+  }
+
+  return {
+    startedDateTime: new Date(timing.startTime).toISOString(),
+    time: Math.max(0, timing.responseEnd),
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: version,
+      cookies: [],
+      headers: requestHeaders,
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      ...(postData ? {
+        postData: TEXT_MIME_TYPE.test(postMimeType)
+          ? { mimeType: postMimeType, text: postData.toString('utf-8') }
+          : { mimeType: postMimeType, text: postData.toString('base64'), encoding: 'base64' as const },
+      } : {}),
+      headersSize: -1,
+      bodySize: postData?.length ?? 0,
+    },
+    response: {
+      status: response.status(),
+      statusText: response.statusText(),
+      httpVersion: version,
+      cookies: [],
+      headers: responseHeaders,
+      content,
+      redirectURL: header(responseHeaders, 'location'),
+      headersSize: -1,
+      bodySize: body?.length ?? -1,
+    },
+    cache: {},
+    timings: {
+      send: 0,
+      wait: Math.max(0, timing.responseStart - timing.requestStart),
+      receive: Math.max(0, timing.responseEnd - timing.responseStart),
+    },
+  };
+}
+
+/**
+ * Start recording the http(s) traffic of every window into a HAR log.
+ * Requests that fail without a response aren't recorded.
+ */
+export function startHarRecording(context: BrowserContext): void {
+  if (recording) {
+    throw new Error('A HAR recording is already running; stop it first');
+  }
+  const entries: Promise<HarEntry | null>[] = [];
+  const onRequest = (request: Request) => {
+    entries.push(toHarEntry(request).catch(() => null));
+  };
+  context.on('requestfinished', onRequest);
+  recording = { context, entries, onRequest };
+}
+
+/**
+ * Carry a running HAR recording over to another context, e.g. after the app
+ * was relaunched. Entries recorded so far are kept.
+ */
+export function moveHarRecording(context: BrowserContext): void {
+  if (!recording || recording.context === context) {
+    return;
+  }
+  recording.context.off('requestfinished', recording.onRequest);
+  context.on('requestfinished', recording.onRequest);
+  recording.context = context;
+}
+
+/**
+ * Whether a HAR recording is running
+ */
+export function isRecordingHar(): boolean {
+  return recording !== null;
+}
+
+/**
+ * Stop recording and write the HAR file. It can be replayed with
+ * `open --replay-har` (or Playwright's routeFromHAR).
+ */
+export async function stopHarRecording(file: string): Promise<{ path: string; entries: number }> {
+  if (!recording) {
+    throw new Error('No HAR recording is running. Start one with "pw-electron har start".');
+  }
+  const current = recording;
+
+  const har = {
+    log: {
+      version: '1.2',
+      creator: { name: 'playwright-electron-cli', version: '0.1.0' },
+      pages: [],
+      entries: (await Promise.all([...current.entries])).filter((entry): entry is HarEntry => entry !== null),
+    },
+  };
+  // Keep recording until the file is written, so a failed stop can be retried
+  const outputPath = path.resolve(file);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(har, null, 2));
+
+  current.context.off('requestfinished', current.onRequest);
+  if (recording === current) {
+    recording = null;
+  }
+  return { path: outputPath, entries: har.log.entries.length };
+}
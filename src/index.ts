@@ -1,11 +1,84 @@
 // Main entry point for programmatic usage
-export { launchElectron, getAppInfo, waitForWindow } from './electron-launcher.js';
-export type { LaunchOptions } from './electron-launcher.js';
-export { runInlineScript } from './script-runner.js';
-export type { ScriptContext, RunInlineScriptOptions } from './script-runner.js';
+export { launchElectron, resolveElectronApp, getAppInfo, waitForWindow } from './electron-launcher.js';
+export type { LaunchOptions, ElectronResolution, ElectronAppKind } from './electron-launcher.js';
+export { diagnoseApp } from './doctor.js';
+export { startXvfb, stopXvfb, needsVirtualDisplay } from './xvfb.js';
+export type { XvfbOptions, XvfbDisplay } from './xvfb.js';
+export type { DoctorReport, DoctorCheck } from './doctor.js';
+export { listWindows, resolveWindow, waitForMatchingWindow } from './windows.js';
+export type { WindowInfo } from './windows.js';
+export { attachLogCapture, queryLogs } from './logs.js';
+export type { VideoInfo, SavedVideo } from './video.js';
+export type { DialogStubOptions, ShellStubOptions, StubCall, StubState } from './stubs.js';
+export type { IpcDirection, IpcEntry, IpcQuery } from './ipc.js';
+export type { MenuItemInfo, MenuQuery, MenuSource } from './menus.js';
+export type { LogEntry, LogLevel, LogQuery } from './logs.js';
+export { serializeResult, reviveResult } from './serialize.js';
+export type { SerializedValue } from './serialize.js';
+export { runInlineScript, runScript, runScriptModule } from './script-runner.js';
+export type { ScriptContext, RunInlineScriptOptions, ScriptModuleOptions } from './script-runner.js';
+export { evaluateInMain } from './main-eval.js';
+export { runTests, findTestFiles, formatJUnitReport, writeJUnitReport, writeJsonReport } from './test-runner.js';
+export type { TestRunOptions, TestAttempt, TestResult, TestReport } from './test-runner.js';
+export { findConfigFile, loadConfig, resolveProfile, runLaunchHook } from './config.js';
+export type { PwElectronConfig, ProfileConfig, ResolvedProfile, LaunchHook, LaunchHookContext } from './config.js';
 
 // Session management
-export { startServer } from './server.js';
-export { evalScript, takeScreenshot, closeApp, getStatus, getActiveSession } from './client.js';
-export { loadSession, saveSession, clearSession, isSessionAlive } from './session.js';
+export { startServer, attachServer } from './server.js';
+export { attachElectron, getAttachedAppInfo } from './attach.js';
+export { isLaunchedApp } from './attach.js';
+export type { AttachOptions, AttachedApp, RendererApp, SessionApp } from './attach.js';
+export type { CrashEvent, CrashKind } from './crashes.js';
+export type { RouteOptions, RouteInfo } from './routes.js';
+export {
+  evalScript,
+  evalMainScript,
+  takeScreenshot,
+  takeSnapshot,
+  closeApp,
+  getStatus,
+  getActiveSession,
+  getLiveSession,
+  probeSession,
+  waitForSession,
+  getWindows,
+  waitForNewWindow,
+  getLogs,
+  getIpcMessages,
+  invokeIpc,
+  getMenu,
+  clickMenuItem,
+  startTrace,
+  stopTrace,
+  getVideos,
+  saveVideo,
+  runScriptFile,
+  runScriptSource,
+  stubDialog,
+  stubShell,
+  getStubs,
+  clearStubs,
+  addRoute,
+  getRoutes,
+  clearRoutes,
+  startHar,
+  stopHar,
+} from './client.js';
+export type { ClientOptions, ClientResponse, ScriptResult, ScreenshotResult, ScriptOptions, WindowTargetOptions } from './client.js';
+export { captureScreenshot } from './screenshot.js';
+export { captureSnapshot, parseAriaSnapshot, filterInteresting, formatSnapshotYaml } from './snapshot.js';
+export type { SnapshotOptions, SnapshotNode, PageSnapshot } from './snapshot.js';
+export type { ScreenshotOptions } from './screenshot.js';
+export { startRepl } from './repl.js';
+export { startDetached } from './daemon.js';
+export type { DetachOptions } from './daemon.js';
+export {
+  loadSession,
+  saveSession,
+  clearSession,
+  listSessions,
+  isSessionAlive,
+  resolveSessionName,
+  describeEndpoint,
+} from './session.js';
 export type { SessionInfo } from './session.js';
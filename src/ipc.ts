@@ -0,0 +1,181 @@
+import type { ElectronApplication } from 'playwright';
+import { evaluateInMain } from './main-eval.js';
+import type { SerializedValue } from './serialize.js';
+
+export type IpcDirection = 'renderer-to-main' | 'main-to-renderer';
+
+export interface IpcEntry {
+  /** Monotonic sequence number, used as a cursor when following */
+  seq: number;
+  timestamp: string;
+  direction: IpcDirection;
+  /** `send` for send/sendSync messages, `invoke` and `reply` for `handle` round trips */
+  kind: 'send' | 'invoke' | 'reply';
+  channel: string;
+  /** Id of the webContents that sent or received the message */
+  webContentsId: number | null;
+  /** JSON preview of the arguments (or of the reply value), truncated */
+  args: string;
+  /** Time between an invoke and its reply (replies only) */
+  durationMs?: number;
+  /** What the handler threw (replies only) */
+  error?: string;
+}
+
+export interface IpcQuery {
+  /** Regex matched against the channel name */
+  channel?: string;
+  /** Only include entries with a sequence number greater than this */
+  after?: number;
+}
+
+const MAX_ARGS_LENGTH = 500;
+
+/**
+ * Start recording IPC traffic in the main process: messages received by
+ * `ipcMain` listeners, `ipcMain.handle` and `webContents.ipc.handle` handlers,
+ * their replies, and `webContents.send` calls. The main process keeps the most
+ * recent 5000 entries.
+ *
+ * Handlers registered before capture starts are wrapped too, but messages sent
+ * before it starts are not recorded. Handlers registered on a frame's
+ * `WebFrameMain.ipc` are not wrapped.
+ */
+export async function installIpcCapture(app: ElectronApplication): Promise<void> {
+  // Stringified and run in the main process, so it can't refer to anything outside its body
+  await app.evaluate(({ app: electronApp, ipcMain, webContents }, maxArgsLength) => {
+    type Entry = Record<string, unknown>;
+    const g = globalThis as { __pwElectronIpc?: { nextSeq: number; entries: Entry[] } };
+    if (g.__pwElectronIpc) {
+      return;
+    }
+    const capture = g.__pwElectronIpc = { nextSeq: 1, entries: [] as Entry[] };
+
+    const preview = (value: unknown): string => {
+      let text: string;
+      try {
+        text = JSON.stringify(value, (_key, item) => {
+          if (typeof item === 'bigint') {
+            return `${item}n`;
+          }
+          if (item && typeof item === 'object' && 'webContents' in item) {
+            return `[BrowserWindow ${(item as { id: number }).id}]`;
+          }
+          return item;
+        }) ?? 'undefined';
+      } catch {
+        text = '[unserializable]';
+      }
+      return text.length > maxArgsLength ? `${text.slice(0, maxArgsLength)}…` : text;
+    };
+
+    const record = (entry: Entry): void => {
+      capture.entries.push({ seq: capture.nextSeq++, timestamp: new Date().toISOString(), ...entry });
+      if (capture.entries.length > 5000) {
+        capture.entries.splice(0, capture.entries.length - 5000);
+      }
+    };
+
+    type IpcEvent = { sender?: { id: number }; _reply?: (value: unknown) => void; _throw?: (error: unknown) => void };
+
+    // ipcRenderer.send/sendSync messages are emitted on ipcMain with the event
+    // first, even when the listener is on webContents.ipc
+    const emitter = ipcMain as unknown as { emit: (channel: string | symbol, ...args: unknown[]) => boolean };
+    const emit = emitter.emit;
+    emitter.emit = function (channel, ...rest) {
+      const [event, ...args] = rest as [IpcEvent, ...unknown[]];
+      if (typeof channel === 'string' && event && typeof event === 'object' && 'sender' in event) {
+        record({ direction: 'renderer-to-main', kind: 'send', channel, webContentsId: event.sender?.id ?? null, args: preview(args) });
+      }
+      return emit.call(this, channel, ...rest);
+    };
+
+    // ipcMain.handle and webContents.ipc.handle handlers live in an internal map
+    // and answer through the event's _reply/_throw; wrap the ones already
+    // registered and any added later
+    type Handler = (event: IpcEvent, ...args: unknown[]) => unknown;
+    const wrapHandlers = (handlers: Map<string, Handler> | undefined): void => {
+      if (!handlers) {
+        return;
+      }
+      const wrap = (channel: string, handler: Handler): Handler => (event, ...args) => {
+        const webContentsId = event.sender?.id ?? null;
+        const started = Date.now();
+        record({ direction: 'renderer-to-main', kind: 'invoke', channel, webContentsId, args: preview(args) });
+
+        const reply = event._reply;
+        const fail = event._throw;
+        event._reply = value => {
+          record({ direction: 'main-to-renderer', kind: 'reply', channel, webContentsId, args: preview(value), durationMs: Date.now() - started });
+          reply?.call(event, value);
+        };
+        event._throw = error => {
+          record({ direction: 'main-to-renderer', kind: 'reply', channel, webContentsId, args: 'undefined', error: String(error), durationMs: Date.now() - started });
+          fail?.call(event, error);
+        };
+        return handler(event, ...args);
+      };
+
+      const set = handlers.set;
+      for (const [channel, handler] of handlers) {
+        set.call(handlers, channel, wrap(channel, handler));
+      }
+      handlers.set = function (channel, handler) {
+        return set.call(this, channel, wrap(channel, handler));
+      };
+    };
+    wrapHandlers((ipcMain as unknown as { _invokeHandlers?: Map<string, Handler> })._invokeHandlers);
+
+    // Messages to renderers go through each webContents' send, and since
+    // Electron 17 each webContents can have handlers of its own
+    type Contents = { id: number; send: (channel: string, ...args: unknown[]) => void; ipc?: { _invokeHandlers?: Map<string, Handler> } };
+    const patch = (contents: Contents) => {
+      wrapHandlers(contents.ipc?._invokeHandlers);
+      const send = contents.send;
+      contents.send = function (channel, ...args) {
+        record({ direction: 'main-to-renderer', kind: 'send', channel, webContentsId: contents.id, args: preview(args) });
+        return send.call(this, channel, ...args);
+      };
+    };
+    webContents.getAllWebContents().forEach(patch);
+    electronApp.on('web-contents-created', (_event: unknown, contents: Contents) => patch(contents));
+  }, MAX_ARGS_LENGTH);
+}
+
+/**
+ * Get recorded IPC entries, oldest first
+ */
+export async function queryIpc(app: ElectronApplication, query: IpcQuery = {}): Promise<IpcEntry[]> {
+  const after = query.after ?? 0;
+  const entries = await app.evaluate((_electron, after) => {
+    const g = globalThis as { __pwElectronIpc?: { entries: { seq: number }[] } };
+    return (g.__pwElectronIpc?.entries ?? []).filter(entry => entry.seq > after);
+  }, after) as IpcEntry[];
+
+  const channel = query.channel ? new RegExp(query.channel) : undefined;
+  return channel ? entries.filter(entry => channel.test(entry.channel)) : entries;
+}
+
+/**
+ * Call a `handle` handler directly, as if the first window had invoked the
+ * channel, and return its serialized result. Like Electron, a handler on the
+ * window's `webContents.ipc` wins over one on `ipcMain`.
+ */
+export async function invokeIpcHandler(
+  app: ElectronApplication,
+  channel: string,
+  args: unknown[] = []
+): Promise<SerializedValue> {
+  return evaluateInMain(app, `
+    const sender = BrowserWindow.getAllWindows()[0]?.webContents ?? webContents.getAllWebContents()[0];
+    const handler = sender?.ipc?._invokeHandlers?.get(${JSON.stringify(channel)})
+      ?? ipcMain._invokeHandlers?.get(${JSON.stringify(channel)});
+    if (!handler) {
+      throw new Error(${JSON.stringify(`No ipcMain.handle or webContents.ipc.handle handler for channel "${channel}"`)});
+    }
+    return await new Promise((resolve, reject) => {
+      const event = { sender, senderFrame: sender?.mainFrame, processId: sender?.getProcessId(), _reply: resolve, _throw: reject };
+      handler(event, ...${JSON.stringify(args)});
+    });
+  `, `<ipc invoke ${channel}>`);
+}
@@ -0,0 +1,179 @@
+import type { Page, ConsoleMessage } from 'playwright';
+import { isLaunchedApp, SessionApp } from './attach.js';
+
+export type LogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+export type LogSource = 'renderer' | 'main';
+
+export interface LogEntry {
+  /** Monotonic sequence number, used as a cursor when following */
+  seq: number;
+  timestamp: string;
+  level: LogLevel;
+  source: LogSource;
+  /** Window the message came from (renderer messages only) */
+  window?: { index: number; url: string };
+  text: string;
+}
+
+export interface LogQuery {
+  /** Minimum level to include */
+  level?: LogLevel;
+  /** Only include entries at or after this time (ISO timestamp) */
+  since?: string;
+  /** Only include entries with a sequence number greater than this */
+  after?: number;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warning', 'error'];
+
+const MAX_ENTRIES = 5000;
+
+const entries: LogEntry[] = [];
+let nextSeq = 1;
+
+/**
+ * Add an entry to the ring buffer, dropping the oldest once full
+ */
+function recordLog(entry: Omit<LogEntry, 'seq' | 'timestamp'>): void {
+  entries.push({ seq: nextSeq++, timestamp: new Date().toISOString(), ...entry });
+  if (entries.length > MAX_ENTRIES) {
+    entries.splice(0, entries.length - MAX_ENTRIES);
+  }
+}
+
+/**
+ * Map a console message type to a log level
+ */
+function consoleLevel(type: string): LogLevel {
+  switch (type) {
+    case 'error':
+    case 'assert':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    case 'debug':
+    case 'trace':
+      return 'debug';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Describe the window a renderer message came from
+ */
+function sourceWindow(app: SessionApp, page: Page | null): LogEntry['window'] {
+  if (!page) {
+    return undefined;
+  }
+  return { index: app.windows().indexOf(page), url: page.url() };
+}
+
+/**
+ * Capture console messages and uncaught errors from a renderer window
+ */
+function captureWindow(app: SessionApp, page: Page): void {
+  page.on('console', (message: ConsoleMessage) => {
+    recordLog({
+      level: consoleLevel(message.type()),
+      source: 'renderer',
+      window: sourceWindow(app, message.page() ?? page),
+      text: message.text(),
+    });
+  });
+
+  page.on('pageerror', (error: Error) => {
+    recordLog({
+      level: 'error',
+      source: 'renderer',
+      window: sourceWindow(app, page),
+      text: error.stack || String(error),
+    });
+  });
+}
+
+/**
+ * Capture a main-process output stream line by line
+ */
+function captureStream(stream: NodeJS.ReadableStream | null, level: LogLevel): void {
+  if (!stream) {
+    return;
+  }
+
+  let pending = '';
+  stream.on('data', (chunk: Buffer | string) => {
+    pending += chunk.toString();
+    const lines = pending.split(/\r?\n/);
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) {
+        recordLog({ level, source: 'main', text: line });
+      }
+    }
+  });
+  stream.on('end', () => {
+    if (pending.trim()) {
+      recordLog({ level, source: 'main', text: pending });
+    }
+    pending = '';
+  });
+}
+
+/**
+ * Start buffering renderer console messages, page errors and the main
+ * process's stdout (as info) and stderr (as error).
+ *
+ * Call this right after launch so early messages are not missed. The main
+ * process's output can't be read for apps attached over CDP.
+ */
+export function attachLogCapture(app: SessionApp): void {
+  for (const page of app.windows()) {
+    captureWindow(app, page);
+  }
+  app.on('window', page => captureWindow(app, page));
+
+  if (isLaunchedApp(app)) {
+    const child = app.process();
+    captureStream(child.stdout, 'info');
+    captureStream(child.stderr, 'error');
+  }
+}
+
+/**
+ * Get buffered log entries matching a query, oldest first
+ */
+export function queryLogs(query: LogQuery = {}): LogEntry[] {
+  const minLevel = query.level ? LOG_LEVELS.indexOf(query.level) : 0;
+  const since = query.since ? Date.parse(query.since) : undefined;
+
+  return entries.filter(entry =>
+    LOG_LEVELS.indexOf(entry.level) >= minLevel &&
+    (query.after === undefined || entry.seq > query.after) &&
+    (since === undefined || Date.parse(entry.timestamp) >= since)
+  );
+}
+
+/**
+ * Check whether a string is a valid log level
+ */
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Parse a --since value: an ISO timestamp, epoch milliseconds, or a
+ * duration before `now` such as "30s", "5m" or "1h". Returns an ISO timestamp.
+ */
+export function parseSince(value: string, now = Date.now()): string {
+  const relative = /^(\d+)(ms|s|m|h|d)$/.exec(value);
+  if (relative) {
+    const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+    return new Date(now - parseInt(relative[1], 10) * units[relative[2]]).toISOString();
+  }
+  const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid --since value "${value}". Use an ISO timestamp, epoch ms, or a duration like 5m.`);
+  }
+  return new Date(time).toISOString();
+}
@@ -0,0 +1,52 @@
+import type { ElectronApplication } from 'playwright';
+import { encodeValue as encodeValueFn, SerializedValue } from './serialize.js';
+
+/**
+ * Run a script in the Electron main process with every export of the
+ * `electron` module (`app`, `BrowserWindow`, `dialog`, `ipcMain`, ...) in scope.
+ *
+ * The result is encoded into a SerializedValue inside the main process, since
+ * Maps, Sets, functions and the like don't survive Playwright's own transfer.
+ * The encoder is the one `eval` uses, sent over as source.
+ */
+export async function evaluateInMain(
+  app: ElectronApplication,
+  script: string,
+  displayName = '<main-eval>'
+): Promise<SerializedValue> {
+  // This function is stringified and run in the main process, so it can't
+  // refer to anything outside its own body
+  return app.evaluate(async (electron, { script, displayName, encoderSource }) => {
+    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+    const modules = electron as unknown as Record<string, unknown>;
+    const names = Object.keys(modules).filter(name => /^[A-Za-z_$][\w$]*$/.test(name));
+    const values = names.map(name => {
+      try {
+        return modules[name];
+      } catch {
+        // Some exports throw when read outside their supported platform
+        return undefined;
+      }
+    });
+
+    const fn = new AsyncFunction(...names, `${script}\n//# sourceURL=${displayName}`);
+    const result: unknown = await fn(...values);
+
+    // The shared encoder, rebuilt from its source since nothing can be imported here
+    const encodeValue = new Function(`return (${encoderSource})`)() as typeof encodeValueFn;
+    return encodeValue(result, async object => {
+      if (!(object instanceof electron.BrowserWindow)) {
+        return undefined;
+      }
+      const win = object as {
+        id: number;
+        isDestroyed(): boolean;
+        getTitle(): string;
+        webContents: { getURL(): string };
+      };
+      return win.isDestroyed()
+        ? { $type: 'browserwindow', id: null, title: '(destroyed)', url: '' }
+        : { $type: 'browserwindow', id: win.id, title: win.getTitle(), url: win.webContents.getURL() };
+    });
+  }, { script, displayName, encoderSource: encodeValueFn.toString() });
+}
@@ -0,0 +1,175 @@
+import type { ElectronApplication } from 'playwright';
+
+export type MenuSource = 'application' | 'context' | 'tray';
+
+export interface MenuQuery {
+  /** Which menu to use: the application menu (default), the last context menu, or a tray menu */
+  source?: MenuSource;
+  /** Which tray, in the order their menus were set (default 0) */
+  tray?: number;
+}
+
+export interface MenuItemInfo {
+  label: string;
+  id: string | null;
+  type: string;
+  role: string | null;
+  accelerator: string | null;
+  enabled: boolean;
+  visible: boolean;
+  /** Checked state of checkbox and radio items */
+  checked?: boolean;
+  submenu?: MenuItemInfo[];
+}
+
+/**
+ * Start tracking the menus the app shows outside the application menu:
+ * context menus opened with `menu.popup()` and tray menus set with
+ * `tray.setContextMenu()` or shown with `tray.popUpContextMenu(menu)`.
+ *
+ * Only menus shown or set after tracking starts are seen.
+ */
+export async function installMenuTracking(app: ElectronApplication): Promise<void> {
+  // Stringified and run in the main process, so it can't refer to anything outside its body
+  await app.evaluate(({ Menu, Tray }) => {
+    type Tracked = { context: unknown; trays: { tray: unknown; menu: unknown }[] };
+    const g = globalThis as { __pwElectronMenus?: Tracked };
+    if (g.__pwElectronMenus) {
+      return;
+    }
+    const tracked: Tracked = g.__pwElectronMenus = { context: null, trays: [] };
+
+    const menuProto = Menu.prototype as unknown as { popup: (...args: unknown[]) => unknown };
+    const popup = menuProto.popup;
+    menuProto.popup = function (...args) {
+      tracked.context = this;
+      return popup.apply(this, args);
+    };
+
+    const trayProto = Tray.prototype as unknown as Record<string, (...args: unknown[]) => unknown>;
+    const setTrayMenu = (tray: unknown, menu: unknown) => {
+      const existing = tracked.trays.find(entry => entry.tray === tray);
+      if (existing) {
+        existing.menu = menu;
+      } else {
+        tracked.trays.push({ tray, menu });
+      }
+    };
+    for (const method of ['setContextMenu', 'popUpContextMenu']) {
+      const original = trayProto[method];
+      trayProto[method] = function (menu, ...rest) {
+        if (menu) {
+          setTrayMenu(this, menu);
+        }
+        return original.call(this, menu, ...rest);
+      };
+    }
+  });
+}
+
+/**
+ * Get a menu's item tree
+ */
+export async function getMenu(app: ElectronApplication, query: MenuQuery = {}): Promise<MenuItemInfo[]> {
+  // Stringified and run in the main process, so it can't refer to anything outside its body
+  return app.evaluate(({ Menu }, { source, tray }) => {
+    type Item = {
+      label: string; id?: string; type: string; role?: string; accelerator?: unknown;
+      enabled: boolean; visible: boolean; checked: boolean; submenu?: { items: Item[] } | null;
+    };
+    const tracked = (globalThis as { __pwElectronMenus?: { context: unknown; trays: { menu: unknown }[] } }).__pwElectronMenus;
+    const menu = (source === 'context'
+      ? tracked?.context
+      : source === 'tray'
+        ? tracked?.trays[tray]?.menu
+        : Menu.getApplicationMenu()) as { items: Item[] } | null | undefined;
+    if (!menu) {
+      throw new Error(source === 'context'
+        ? 'No context menu has been shown since the session started'
+        : source === 'tray'
+          ? `No menu has been set for tray ${tray} since the session started`
+          : 'The app has no application menu');
+    }
+
+    const describe = (items: Item[]): unknown[] => items.map(item => ({
+      label: item.label,
+      id: item.id ?? null,
+      type: item.type,
+      role: item.role ?? null,
+      accelerator: item.accelerator ? String(item.accelerator) : null,
+      enabled: item.enabled,
+      visible: item.visible,
+      ...(item.type === 'checkbox' || item.type === 'radio' ? { checked: item.checked } : {}),
+      ...(item.submenu ? { submenu: describe(item.submenu.items) } : {}),
+    }));
+    return describe(menu.items) as MenuItemInfo[];
+  }, { source: query.source ?? 'application', tray: query.tray ?? 0 });
+}
+
+/**
+ * Click a menu item in the main process, found by its path of labels (or ids),
+ * e.g. `['File', 'Export', 'PDF']`. Runs the item's click handler or role
+ * and toggles checkbox and radio items, like a real click. Returns the label
+ * path of the clicked item.
+ */
+export async function clickMenuItem(
+  app: ElectronApplication,
+  itemPath: string[],
+  query: MenuQuery = {}
+): Promise<string[]> {
+  // Stringified and run in the main process, so it can't refer to anything outside its body
+  return app.evaluate(({ Menu, BrowserWindow }, { itemPath, source, tray }) => {
+    type Item = {
+      label: string; id?: string; enabled: boolean; visible: boolean;
+      submenu?: { items: Item[] } | null;
+      click: (event: unknown, focusedWindow: unknown, focusedWebContents: unknown) => void;
+    };
+    type TrackedMenu = { items: Item[]; closePopup?: () => void };
+    const tracked = (globalThis as { __pwElectronMenus?: { context: unknown; trays: { menu: unknown }[] } }).__pwElectronMenus;
+    const menu = (source === 'context'
+      ? tracked?.context
+      : source === 'tray'
+        ? tracked?.trays[tray]?.menu
+        : Menu.getApplicationMenu()) as TrackedMenu | null | undefined;
+    if (!menu) {
+      throw new Error(source === 'context'
+        ? 'No context menu has been shown since the session started'
+        : source === 'tray'
+          ? `No menu has been set for tray ${tray} since the session started`
+          : 'The app has no application menu');
+    }
+
+    // Labels match case-insensitively, ignoring "&" mnemonics; ids match exactly
+    const normalize = (label: string) => label.replace(/&(.)/g, '$1').trim().toLowerCase();
+    let items = menu.items;
+    let item: Item | undefined;
+    const labels: string[] = [];
+    for (const segment of itemPath) {
+      item = items.find(candidate => candidate.id === segment)
+        ?? items.find(candidate => candidate.label && normalize(candidate.label) === normalize(segment));
+      if (!item) {
+        const available = items.filter(candidate => candidate.label).map(candidate => candidate.label).join(', ');
+        throw new Error(`No menu item "${segment}"${labels.length ? ` under "${labels.join(' > ')}"` : ''}. Available: ${available}`);
+      }
+      labels.push(item.label || item.id || segment);
+      items = item.submenu?.items ?? [];
+    }
+
+    if (!item) {
+      throw new Error('Menu item path is empty');
+    }
+    if (item.submenu) {
+      throw new Error(`"${labels.join(' > ')}" is a submenu, not an item`);
+    }
+    if (!item.enabled) {
+      throw new Error(`"${labels.join(' > ')}" is disabled`);
+    }
+
+    const focusedWindow = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0] ?? null;
+    item.click({ triggeredByAccelerator: false }, focusedWindow, focusedWindow?.webContents ?? null);
+    if (source === 'context') {
+      menu.closePopup?.();
+    }
+    return labels;
+  }, { itemPath, source: query.source ?? 'application', tray: query.tray ?? 0 });
+}
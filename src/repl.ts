@@ -0,0 +1,155 @@
+import * as repl from 'repl';
+import * as path from 'path';
+import * as util from 'util';
+import { evalScript, getLiveSession, WindowTargetOptions } from './client.js';
+import { getSessionDir } from './session.js';
+import { reviveResult } from './serialize.js';
+
+const AsyncFunction = Object.getPrototypeOf(async function(){}).constructor;
+
+const GLOBALS = ['app', 'window', 'ctx', 'await', 'return', 'const', 'let'];
+
+/**
+ * Check whether source compiles as the body of an async function
+ */
+function compiles(source: string): boolean {
+  try {
+    new AsyncFunction('app', 'window', 'ctx', source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether input ends inside an open bracket, string, template or comment,
+ * meaning the user is still typing a multi-line statement
+ */
+function isIncomplete(source: string): boolean {
+  const closers: string[] = [];
+  let quote: string | null = null;
+  let comment: 'line' | 'block' | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (comment === 'line') {
+      if (char === '\n') comment = null;
+    } else if (comment === 'block') {
+      if (char === '*' && next === '/') {
+        comment = null;
+        i++;
+      }
+    } else if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '/' && next === '/') {
+      comment = 'line';
+    } else if (char === '/' && next === '*') {
+      comment = 'block';
+      i++;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      closers.push(char === '(' ? ')' : char === '[' ? ']' : '}');
+    } else if (char === closers[closers.length - 1]) {
+      closers.pop();
+    }
+  }
+
+  return closers.length > 0 || quote === '`' || comment === 'block';
+}
+
+/**
+ * Turn REPL input into a script body, returning the value of a lone expression
+ */
+function toScript(input: string): string {
+  const expression = `return (${input.trim().replace(/;\s*$/, '')}\n)`;
+  return compiles(expression) ? expression : input;
+}
+
+/**
+ * Complete `app.`, `window.` and `ctx.` member paths using the live objects on the server
+ */
+async function complete(line: string, options: WindowTargetOptions): Promise<[string[], string]> {
+  const member = /([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\.([\w$]*)$/.exec(line);
+
+  if (!member) {
+    const word = /[A-Za-z_$][\w$]*$/.exec(line)?.[0] ?? '';
+    return [GLOBALS.filter(name => name.startsWith(word)), word];
+  }
+
+  const [, target, prefix] = member;
+  if (!['app', 'window', 'ctx'].includes(target.split('.')[0])) {
+    return [[], prefix];
+  }
+
+  const result = await evalScript(`
+    const names = new Set();
+    for (let o = ${target}; o != null && o !== Object.prototype; o = Object.getPrototypeOf(o)) {
+      for (const name of Object.getOwnPropertyNames(o)) {
+        if (!name.startsWith('_') && name !== 'constructor') names.add(name);
+      }
+    }
+    return [...names].sort();
+  `, options);
+
+  const names = Array.isArray(result.data?.result) ? result.data.result as string[] : [];
+  return [names.filter(name => name.startsWith(prefix)).map(name => `${target}.${name}`), `${target}.${prefix}`];
+}
+
+/**
+ * Start an interactive REPL against the running session.
+ *
+ * Each input runs like `eval`, with `app`, `window` and `ctx` in scope. Values
+ * stored on `ctx` persist between inputs (and between other eval/run calls).
+ */
+export async function startRepl(options: WindowTargetOptions = {}): Promise<void> {
+  const session = await getLiveSession(options.session);
+  console.log(`Connected to session "${session.name}" (${session.appPath})`);
+  console.log('`app`, `window` and `ctx` are in scope. Store values on `ctx` to keep them between inputs.');
+  console.log('Type .help for commands, .exit or Ctrl+D to quit.\n');
+
+  const server = repl.start({
+    prompt: `pw-electron:${session.name}> `,
+    ignoreUndefined: true,
+    eval: (input, _context, _file, callback) => {
+      if (!input.trim()) {
+        callback(null, undefined);
+        return;
+      }
+      if (isIncomplete(input) && !compiles(input)) {
+        callback(new repl.Recoverable(new SyntaxError('Unexpected end of input')), undefined);
+        return;
+      }
+
+      evalScript(toScript(input), options).then(result => {
+        if (result.success) {
+          callback(null, result.data ? reviveResult(result.data.result) : undefined);
+        } else {
+          callback(new Error(result.error), undefined);
+        }
+      }, error => callback(error, undefined));
+    },
+    writer: (value) => util.inspect(value, { colors: process.stdout.isTTY, depth: 4 }),
+    completer: (line: string, callback: (error: Error | null, result: [string[], string]) => void) => {
+      complete(line, options).then(result => callback(null, result), () => callback(null, [[], line]));
+    },
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.setupHistory(path.join(getSessionDir(), 'repl_history'), (error) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.on('exit', resolve));
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BrowserContext, Route } from 'playwright';
+
+export interface RouteOptions {
+  /** URL glob the route applies to, e.g. "**\/api/users*" */
+  url: string;
+  /** Answer matching requests, or fail them */
+  action: 'fulfill' | 'abort';
+  /** File whose contents become the response body (fulfill only) */
+  fulfillPath?: string;
+  /** Response status (fulfill only, default 200) */
+  status?: number;
+  /** Response Content-Type (fulfill only; guessed from the file name by default) */
+  contentType?: string;
+  /** Network error to fail with, e.g. "failed" or "internetdisconnected" (abort only, default "failed") */
+  errorCode?: string;
+}
+
+export interface RouteInfo extends RouteOptions {
+  id: number;
+  /** How many requests the route has handled */
+  hits: number;
+}
+
+interface RouteRule {
+  info: RouteInfo;
+  handler: (route: Route) => Promise<void>;
+}
+
+const rules: RouteRule[] = [];
+let nextId = 1;
+
+/**
+ * Build the Playwright handler for a route
+ */
+function createHandler(info: RouteInfo): (route: Route) => Promise<void> {
+  return async route => {
+    info.hits++;
+    if (info.action === 'abort') {
+      await route.abort(info.errorCode ?? 'failed');
+      return;
+    }
+    await route.fulfill({
+      status: info.status ?? 200,
+      contentType: info.contentType,
+      ...(info.fulfillPath ? { path: info.fulfillPath } : { body: '' }),
+    });
+  };
+}
+
+/**
+ * Intercept requests from every window matching a URL glob. Routes are kept
+ * for the whole session, and a route added later wins over earlier ones
+ * matching the same request.
+ */
+export async function addRoute(context: BrowserContext, options: RouteOptions): Promise<RouteInfo> {
+  if (options.fulfillPath && !fs.existsSync(options.fulfillPath)) {
+    throw new Error(`No such file: ${options.fulfillPath}`);
+  }
+  const info: RouteInfo = {
+    ...options,
+    fulfillPath: options.fulfillPath ? path.resolve(options.fulfillPath) : undefined,
+    id: nextId++,
+    hits: 0,
+  };
+  const rule = { info, handler: createHandler(info) };
+  await context.route(info.url, rule.handler);
+  rules.push(rule);
+  return info;
+}
+
+/**
+ * Get the session's routes, oldest first
+ */
+export function listRoutes(): RouteInfo[] {
+  return rules.map(rule => rule.info);
+}
+
+/**
+ * Remove every route, or only those for one URL glob. Returns how many were removed.
+ */
+export async function clearRoutes(context: BrowserContext, url?: string): Promise<number> {
+  const removed = rules.filter(rule => url === undefined || rule.info.url === url);
+  for (const rule of removed) {
+    await context.unroute(rule.info.url, rule.handler);
+    rules.splice(rules.indexOf(rule), 1);
+  }
+  return removed.length;
+}
+
+/**
+ * Install the session's routes on a new context, e.g. after the app restarted
+ */
+export async function applyRoutes(context: BrowserContext): Promise<void> {
+  for (const rule of rules) {
+    await context.route(rule.info.url, rule.handler);
+  }
+}
@@ -0,0 +1,64 @@
+import type { Page } from 'playwright';
+
+export interface ScreenshotOptions {
+  /** Capture only the element matching this selector */
+  selector?: string;
+  /** Capture the full scrollable page instead of the viewport */
+  fullPage?: boolean;
+  /** Capture only this region of the page */
+  clip?: { x: number; y: number; width: number; height: number };
+  /** Selectors of elements to cover with a solid box */
+  mask?: string[];
+  type?: 'png' | 'jpeg';
+  /** JPEG quality, 0-100 */
+  quality?: number;
+  /** Make the default white background transparent (PNG only) */
+  omitBackground?: boolean;
+}
+
+/**
+ * Check that screenshot options are consistent, throwing a readable error if not
+ */
+export function validateScreenshotOptions(options: ScreenshotOptions): void {
+  if (options.type !== undefined && options.type !== 'png' && options.type !== 'jpeg') {
+    throw new Error(`Invalid screenshot type "${options.type}". Use png or jpeg.`);
+  }
+  if (options.quality !== undefined) {
+    if (options.type !== 'jpeg') {
+      throw new Error('Quality can only be set for jpeg screenshots');
+    }
+    if (!Number.isInteger(options.quality) || options.quality < 0 || options.quality > 100) {
+      throw new Error('Quality must be an integer between 0 and 100');
+    }
+  }
+  if (options.selector && (options.fullPage || options.clip)) {
+    throw new Error('A selector screenshot cannot be combined with full-page or clip');
+  }
+  if (options.fullPage && options.clip) {
+    throw new Error('Full-page and clip screenshots cannot be combined');
+  }
+}
+
+/**
+ * Take a screenshot of a window (or one of its elements) and return the image
+ */
+export async function captureScreenshot(page: Page, options: ScreenshotOptions = {}): Promise<Buffer> {
+  validateScreenshotOptions(options);
+
+  const common = {
+    type: options.type,
+    quality: options.quality,
+    omitBackground: options.omitBackground,
+    mask: options.mask?.map(selector => page.locator(selector)),
+  };
+
+  if (options.selector) {
+    return page.locator(options.selector).screenshot(common);
+  }
+
+  return page.screenshot({
+    ...common,
+    fullPage: options.fullPage,
+    clip: options.clip,
+  });
+}
@@ -0,0 +1,16 @@
+import type { ResolveHook } from 'module';
+
+/** Query parameter of a compiled script module's URL holding the script's own URL */
+export const SCRIPT_URL_PARAM = 'pw-electron-script';
+
+/**
+ * Module resolution hook registered by the script runner. Scripts are
+ * compiled into modules under the temp directory; imports from those resolve
+ * against the original script's URL, as if the script had been imported itself.
+ */
+export const resolve: ResolveHook = (specifier, context, nextResolve) => {
+  const parentURL = context.parentURL?.startsWith('file:')
+    ? new URL(context.parentURL).searchParams.get(SCRIPT_URL_PARAM)
+    : null;
+  return nextResolve(specifier, parentURL ? { ...context, parentURL } : context);
+};
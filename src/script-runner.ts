@@ -1,15 +1,364 @@
 import { launchElectron, LaunchOptions } from './electron-launcher.js';
-import type { ElectronApplication, Page } from 'playwright';
+import type { Page } from 'playwright';
+import type { SessionApp } from './attach.js';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as nodeModule from 'module';
+import { pathToFileURL } from 'url';
+import { SCRIPT_URL_PARAM } from './script-hooks.js';
+
+const { createRequire } = nodeModule;
 
 export interface ScriptContext {
-  app: ElectronApplication;
+  /** The app; attached sessions only have its renderer side */
+  app: SessionApp;
   window: Page;
+  /** Object that persists across scripts run in the same session */
+  ctx?: Record<string, unknown>;
+  /** Assertion helper bound as `expect` in script modules (used by the test runner) */
+  expect?: unknown;
 }
 
 export interface RunInlineScriptOptions extends LaunchOptions {
   script: string;
 }
 
+export interface ScriptModuleOptions {
+  /** Path of the script file; relative imports are resolved from its directory */
+  filename: string;
+  /** Script source; read from `filename` when omitted */
+  source?: string;
+  /** Name to show in error locations instead of `filename` */
+  displayName?: string;
+}
+
+const AsyncFunction = Object.getPrototypeOf(async function(){}).constructor;
+
+/**
+ * Run a script string with `app`, `window` and `ctx` in scope and return its result
+ */
+export async function runScript(script: string, context: ScriptContext): Promise<unknown> {
+  const fn = new AsyncFunction('app', 'window', 'ctx', script);
+  return fn(context.app, context.window, context.ctx ?? {});
+}
+
+/** Maps the proxies made by `guard` back to the objects they wrap */
+const guardedTargets = new WeakMap<object, object>();
+
+/** Time a cancelled script gets to stop before whatever comes next goes ahead anyway */
+export const CANCEL_GRACE_PERIOD = 5000;
+
+/**
+ * Whether a value is an instance of a class such as Locator or Mouse, as
+ * opposed to plain data or a built-in that scripts use as a value
+ */
+function isGuardable(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype !== Object.prototype && prototype !== null &&
+    !Array.isArray(value) && !ArrayBuffer.isView(value) &&
+    ![ArrayBuffer, Date, RegExp, Map, Set, Error, Promise].some(type => value instanceof type);
+}
+
+/**
+ * Get the object a guarded proxy wraps, or the value itself
+ */
+function unguard<T>(value: T): T {
+  return (typeof value === 'object' && value !== null ? guardedTargets.get(value) ?? value : value) as T;
+}
+
+/**
+ * Make a function that wraps objects so that calling any of their methods
+ * throws once the signal has aborted. What those methods return (locators,
+ * `window.mouse`, `app.context()`, promises and arrays of them, ...) is
+ * wrapped the same way, so a cancelled script stops at its next Playwright
+ * call. Properties starting with `_` are Playwright internals and are left
+ * alone.
+ */
+function createGuard(signal: AbortSignal): <T>(value: T) => T {
+  const proxies = new WeakMap<object, object>();
+
+  const guard = (value: unknown): unknown => {
+    if (value instanceof Promise) {
+      return value.then(guard);
+    }
+    if (Array.isArray(value)) {
+      return value.map(guard);
+    }
+    if (typeof value !== 'object' || value === null || !isGuardable(value)) {
+      return value;
+    }
+
+    const target = unguard(value);
+    let proxy = proxies.get(target);
+    if (!proxy) {
+      proxy = new Proxy(target, {
+        get(obj, property) {
+          const member = Reflect.get(obj, property, obj);
+          if (typeof property === 'symbol' || property.startsWith('_') || property === 'constructor') {
+            return member;
+          }
+          if (typeof member !== 'function') {
+            return guard(member);
+          }
+          return (...args: unknown[]) => {
+            if (signal.aborted) {
+              throw signal.reason;
+            }
+            return guard(member.apply(obj, args.map(unguard)));
+          };
+        },
+      });
+      proxies.set(target, proxy);
+      guardedTargets.set(proxy, target);
+    }
+    return proxy;
+  };
+
+  return guard as <T>(value: T) => T;
+}
+
+/**
+ * Wrap the object scripts share across runs so that objects read from it are
+ * guarded for this run, and objects stored in it are stored unwrapped
+ */
+function guardCtx(ctx: Record<string, unknown>, guard: <T>(value: T) => T): Record<string, unknown> {
+  return new Proxy(ctx, {
+    get(obj, property) {
+      const value = Reflect.get(obj, property);
+      // Arrays and plain objects stay as they are, so scripts can update them in place
+      return typeof value === 'object' && value !== null && isGuardable(value) ? guard(value) : value;
+    },
+    set: (obj, property, value) => Reflect.set(obj, property, unguard(value)),
+  });
+}
+
+/**
+ * Wait for a promise to settle, giving up after `ms` milliseconds.
+ * Returns whether it settled.
+ */
+export async function settles(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const settled = promise.then(() => true, () => true);
+  const expired = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), ms);
+  });
+  try {
+    return await Promise.race([settled, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a script until it finishes or the signal aborts, whichever comes first.
+ *
+ * JavaScript can't interrupt a running function, so on abort this rejects
+ * with the abort reason straight away, and Playwright objects the script got
+ * through `app`, `window` or `ctx` start throwing. A Playwright call already
+ * in flight keeps going in the background until it settles or hits its own
+ * timeout.
+ */
+export async function runCancellable<T>(
+  run: (context: ScriptContext) => Promise<T>,
+  context: ScriptContext,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return run(context);
+  }
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+
+  let onAbort!: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const guard = createGuard(signal);
+  try {
+    return unguard(await Promise.race([
+      run({
+        ...context,
+        app: guard(context.app),
+        window: guard(context.window),
+        ...(context.ctx ? { ctx: guardCtx(context.ctx, guard) } : {}),
+      }),
+      aborted,
+    ]));
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Split a script into its leading import declarations (with any comments
+ * between them) and the rest of the body
+ */
+export function splitImports(source: string): { imports: string; body: string } {
+  const importPattern = /^import\s*(?:[\s\S]*?\bfrom\s*)?(['"])[^'"\n]*\1(?:\s*(?:with|assert)\s*\{[^}]*\})?[ \t]*;?/;
+  let rest = source.startsWith('#!') ? source.replace(/^#!.*/, '') : source;
+  let imports = source.slice(0, source.length - rest.length);
+
+  for (;;) {
+    const skipped = /^(?:\s+|\/\/.*|\/\*[\s\S]*?\*\/)/.exec(rest);
+    if (skipped) {
+      imports += skipped[0];
+      rest = rest.slice(skipped[0].length);
+      continue;
+    }
+
+    // `import(` and `import.meta` are expressions, not declarations
+    const declaration = /^import\b(?!\s*[(.])/.test(rest) ? importPattern.exec(rest) : null;
+    if (!declaration) {
+      break;
+    }
+    imports += declaration[0];
+    rest = rest.slice(declaration[0].length);
+  }
+
+  return { imports, body: rest };
+}
+
+/**
+ * Load TypeScript, preferring the copy installed next to the script
+ */
+function loadTypeScript(filename: string): typeof import('typescript') {
+  for (const from of [filename, import.meta.url]) {
+    try {
+      return createRequire(from)('typescript');
+    } catch {
+      // Try the next location
+    }
+  }
+  throw new Error(
+    `Running TypeScript files requires the "typescript" package. ` +
+    `Install it in the project containing ${filename}.`
+  );
+}
+
+/**
+ * Turn a script into an ES module whose default export runs the script body.
+ *
+ * The body is appended on the same line as the last import, so line numbers
+ * in the generated module match the original script.
+ */
+function compileScriptModule(source: string, filename: string, params: string[]): string {
+  const { imports, body } = splitImports(source);
+  const code = `${imports}export default async function (${params.join(', ')}) {${body}\n}\n`;
+
+  if (!/\.[cm]?tsx?$/.test(filename)) {
+    return code;
+  }
+
+  const ts = loadTypeScript(filename);
+  return ts.transpileModule(code, {
+    fileName: path.basename(filename),
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      inlineSourceMap: true,
+      inlineSources: true,
+      // The module is written elsewhere, so point the source map at the script itself
+      sourceRoot: pathToFileURL(path.dirname(filename)).href,
+    },
+  }).outputText;
+}
+
+let moduleDir: string | null = null;
+
+/**
+ * Get the directory compiled script modules are written to, registering the
+ * hook that resolves their imports from the original scripts on first use.
+ *
+ * Without module.register (Node before 20.6), modules are written next to the
+ * script instead, so imports resolve the same way.
+ */
+function getModuleDir(filename: string): string {
+  if (typeof nodeModule.register !== 'function') {
+    return path.dirname(filename);
+  }
+  if (!moduleDir) {
+    nodeModule.register('./script-hooks.js', import.meta.url);
+    moduleDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pw-electron-scripts-'));
+    const dir = moduleDir;
+    process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+  }
+  return moduleDir;
+}
+
+/**
+ * Run a script file (or source attributed to a file) as an ES module with
+ * `app`, `window` and `ctx` in scope, and return its result.
+ *
+ * The script may start with `import` declarations, which are resolved
+ * relative to the script's directory. Stack traces of errors thrown by the
+ * script point at the original file and line numbers.
+ *
+ * Each run loads the script afresh, but modules it imports are loaded once
+ * per process: Node can't unload ES modules.
+ */
+export async function runScriptModule(options: ScriptModuleOptions, context: ScriptContext): Promise<unknown> {
+  const filename = path.resolve(options.filename);
+  const displayName = options.displayName ?? filename;
+  const source = options.source ?? fs.readFileSync(filename, 'utf-8');
+  // Only bind `expect` when one is given, so scripts can import their own
+  const params = ['app', 'window', 'ctx', ...(context.expect ? ['expect'] : [])];
+  const code = compileScriptModule(source, filename, params);
+
+  // The module's URL names the script, so its imports resolve exactly as they
+  // would from the script itself
+  const suffix = crypto.randomBytes(6).toString('hex');
+  const base = path.basename(filename).replace(/[^A-Za-z0-9_.-]/g, '_');
+  const modulePath = path.join(getModuleDir(filename), `.${base}.pw-electron-${suffix}.mjs`);
+  const moduleFileUrl = pathToFileURL(modulePath);
+  moduleFileUrl.searchParams.set(SCRIPT_URL_PARAM, pathToFileURL(filename).href);
+  const moduleUrl = moduleFileUrl.href;
+
+  process.setSourceMapsEnabled(true);
+  fs.writeFileSync(modulePath, code);
+
+  try {
+    let mod: {
+      default: (app: SessionApp, window: Page, ctx: Record<string, unknown>, expect?: unknown) => Promise<unknown>;
+    };
+    try {
+      mod = await import(moduleUrl);
+    } finally {
+      fs.rmSync(modulePath, { force: true });
+    }
+    return await mod.default(context.app, context.window, context.ctx ?? {}, context.expect);
+  } catch (error) {
+    if (error instanceof Error && error.stack) {
+      error.stack = error.stack
+        .split(moduleUrl).join(displayName)
+        .split(pathToFileURL(modulePath).href).join(displayName)
+        .split(modulePath).join(displayName)
+        .split(pathToFileURL(filename).href).join(displayName);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe an error thrown by a script, keeping only the stack frames that
+ * point into the script itself
+ */
+export function describeScriptError(error: unknown, displayName: string): string {
+  if (!(error instanceof Error) || !error.stack) {
+    return String(error);
+  }
+
+  const lines = error.stack.split('\n');
+  const isFrame = (line: string) => /^\s+at /.test(line);
+  const header = lines.filter(line => !isFrame(line)).join('\n');
+  const frames = lines.filter(line => isFrame(line) && line.includes(displayName));
+  return [header, ...frames].join('\n');
+}
+
 /**
  * Run an inline Playwright script against an Electron application
  * 
@@ -28,11 +377,7 @@ export async function runInlineScript(options: RunInlineScriptOptions): Promise<
     const window = await app.firstWindow();
     await window.waitForLoadState('domcontentloaded');
     
-    // Create an async function from the script string with app and window in scope
-    const AsyncFunction = Object.getPrototypeOf(async function(){}).constructor;
-    const fn = new AsyncFunction('app', 'window', script);
-    
-    await fn(app, window);
+    await runScript(script, { app, window });
     
     console.log('Script executed successfully');
   } finally {
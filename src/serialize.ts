@@ -0,0 +1,299 @@
+import * as util from 'util';
+import type { ElementHandle, JSHandle, Locator, Page } from 'playwright';
+
+/**
+ * A JSON-safe encoding of a script result.
+ *
+ * Plain JSON values are kept as they are. Everything else is encoded as an
+ * object with a `$type` tag, e.g. `{ "$type": "bigint", "value": "42" }`.
+ */
+export type SerializedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SerializedValue[]
+  | { [key: string]: SerializedValue };
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Trim a preview string to a readable length
+ */
+function truncate(text: string, length = PREVIEW_LENGTH): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+/**
+ * Encode a Playwright Locator with its selector and a preview of the first match
+ */
+async function serializeLocator(locator: Locator): Promise<SerializedValue> {
+  const encoded: { [key: string]: SerializedValue } = { $type: 'locator', description: locator.toString() };
+  try {
+    encoded.count = await locator.count();
+    if (encoded.count > 0) {
+      encoded.preview = truncate(await locator.first().evaluate((el: { outerHTML: string }) => el.outerHTML, undefined, { timeout: 1000 }));
+    }
+  } catch {
+    // Locator can't be resolved right now (e.g. page navigating); the description is enough
+  }
+  return encoded;
+}
+
+/**
+ * Encode a Playwright ElementHandle or JSHandle with a preview of its value
+ */
+async function serializeHandle(handle: JSHandle): Promise<SerializedValue> {
+  const element = handle.asElement() as ElementHandle | null;
+  if (element) {
+    const preview = await element.evaluate((el: { outerHTML: string }) => el.outerHTML).catch(() => null);
+    return { $type: 'elementhandle', description: handle.toString(), preview: preview === null ? null : truncate(preview) };
+  }
+  const preview = await handle.jsonValue().then(value => truncate(JSON.stringify(value) ?? 'undefined')).catch(() => null);
+  return { $type: 'jshandle', description: handle.toString(), preview };
+}
+
+/**
+ * Encode a value into a JSON-safe structure, handing objects only one side
+ * knows how to describe (Playwright handles here, BrowserWindows in the main
+ * process) to `encodeSpecial` first; it returns undefined for the rest.
+ *
+ * main-eval runs this same function in the Electron main process from its
+ * source, so it must not refer to anything outside its own body.
+ */
+export async function encodeValue(
+  value: unknown,
+  encodeSpecial: (object: object, className: string | undefined) => Promise<SerializedValue | undefined>
+): Promise<SerializedValue> {
+  const maxDepth = 32;
+  const seen = new Map<object, string>();
+
+  async function encode(value: unknown, path: string, depth: number): Promise<SerializedValue> {
+    switch (typeof value) {
+      case 'undefined':
+        return { $type: 'undefined' };
+      case 'boolean':
+      case 'string':
+        return value;
+      case 'number':
+        if (Number.isFinite(value) && !Object.is(value, -0)) {
+          return value;
+        }
+        return { $type: 'number', value: Object.is(value, -0) ? '-0' : String(value) };
+      case 'bigint':
+        return { $type: 'bigint', value: value.toString() };
+      case 'symbol':
+        return { $type: 'symbol', description: value.description ?? '' };
+      case 'function':
+        return { $type: 'function', name: value.name || '(anonymous)' };
+    }
+
+    if (value === null) {
+      return null;
+    }
+
+    const object = value as object;
+    const className = (object as { constructor?: { name?: string } }).constructor?.name;
+    const circularPath = seen.get(object);
+    if (circularPath !== undefined) {
+      return { $type: 'circular', path: circularPath };
+    }
+    if (depth >= maxDepth) {
+      return { $type: 'truncated', className: className ?? 'Object' };
+    }
+
+    if (Buffer.isBuffer(object)) {
+      return { $type: 'buffer', base64: object.toString('base64') };
+    }
+    if (ArrayBuffer.isView(object)) {
+      return {
+        $type: 'typedarray',
+        className: className ?? 'Uint8Array',
+        base64: Buffer.from(object.buffer, object.byteOffset, object.byteLength).toString('base64'),
+      };
+    }
+    if (object instanceof ArrayBuffer) {
+      return { $type: 'typedarray', className: 'ArrayBuffer', base64: Buffer.from(object).toString('base64') };
+    }
+    if (object instanceof Date) {
+      return { $type: 'date', value: isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString() };
+    }
+    if (object instanceof RegExp) {
+      return { $type: 'regexp', source: object.source, flags: object.flags };
+    }
+    if (object instanceof Error) {
+      return { $type: 'error', name: object.name, message: object.message, stack: object.stack ?? null };
+    }
+    if (object instanceof Promise) {
+      return { $type: 'promise' };
+    }
+
+    const special = await encodeSpecial(object, className);
+    if (special !== undefined) {
+      return special;
+    }
+
+    seen.set(object, path);
+    try {
+      if (object instanceof Map) {
+        const entries: SerializedValue[] = [];
+        let index = 0;
+        for (const [key, entry] of object) {
+          entries.push([
+            await encode(key, `${path}.keys[${index}]`, depth + 1),
+            await encode(entry, `${path}.get(${index})`, depth + 1),
+          ]);
+          index++;
+        }
+        return { $type: 'map', entries };
+      }
+      if (object instanceof Set) {
+        const values: SerializedValue[] = [];
+        let index = 0;
+        for (const entry of object) {
+          values.push(await encode(entry, `${path}[${index++}]`, depth + 1));
+        }
+        return { $type: 'set', values };
+      }
+      if (Array.isArray(object)) {
+        const items: SerializedValue[] = [];
+        for (let i = 0; i < object.length; i++) {
+          items.push(await encode(object[i], `${path}[${i}]`, depth + 1));
+        }
+        return items;
+      }
+
+      const encoded: { [key: string]: SerializedValue } = {};
+      for (const [key, entry] of Object.entries(object)) {
+        encoded[key] = await encode(entry, `${path}.${key}`, depth + 1);
+      }
+      // Escape a user-supplied `$type` key so it isn't mistaken for a tag
+      if ('$type' in encoded) {
+        return { $type: 'object', value: encoded };
+      }
+      return encoded;
+    } finally {
+      seen.delete(object);
+    }
+  }
+
+  return encode(value, '$', 0);
+}
+
+/**
+ * Encode the Playwright objects a script can return
+ */
+async function serializePlaywrightObject(object: object, name: string | undefined): Promise<SerializedValue | undefined> {
+  switch (name) {
+    case 'Locator':
+      return serializeLocator(object as Locator);
+    case 'ElementHandle':
+    case 'JSHandle':
+      return serializeHandle(object as JSHandle);
+    case 'Page': {
+      const page = object as Page;
+      return { $type: 'page', url: page.url(), title: await page.title().catch(() => '') };
+    }
+    case 'ElectronApplication':
+    case 'BrowserContext':
+    case 'Frame':
+      return { $type: name.toLowerCase() };
+  }
+  return undefined;
+}
+
+/**
+ * Encode a script result into a JSON-safe structure.
+ *
+ * Handles values `JSON.stringify` can't: undefined, BigInt, NaN/Infinity,
+ * Buffers and typed arrays (as base64), Map, Set, Date, Error, functions,
+ * symbols, circular references and Playwright handles, locators and pages.
+ */
+export async function serializeResult(value: unknown): Promise<SerializedValue> {
+  return encodeValue(value, serializePlaywrightObject);
+}
+
+/**
+ * A placeholder for a value that can't be recreated on this side, e.g. a
+ * Playwright handle, that prints as a readable summary
+ */
+function placeholder(summary: string, details: Record<string, unknown>): object {
+  return Object.assign(Object.create(null), details, {
+    [util.inspect.custom]: () => summary,
+  });
+}
+
+/**
+ * Revive the entries of a plain (untagged) object
+ */
+function reviveObject(value: { [key: string]: SerializedValue }): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, reviveResult(entry)]));
+}
+
+/**
+ * Decode a serialized result back into JavaScript values for display.
+ *
+ * Maps, Sets, Buffers, BigInts, Dates and the like are recreated; handles and
+ * other values that only exist on the server become printable placeholders.
+ */
+export function reviveResult(value: SerializedValue): unknown {
+  if (Array.isArray(value)) {
+    return value.map(reviveResult);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const tagged = value as { [key: string]: SerializedValue };
+  switch (tagged.$type) {
+    case undefined:
+      return reviveObject(tagged);
+    case 'object':
+      return reviveObject(tagged.value as { [key: string]: SerializedValue });
+    case 'undefined':
+      return undefined;
+    case 'number':
+      return Number(tagged.value);
+    case 'bigint':
+      return BigInt(tagged.value as string);
+    case 'symbol':
+      return Symbol(tagged.description as string);
+    case 'buffer':
+      return Buffer.from(tagged.base64 as string, 'base64');
+    case 'date':
+      return new Date(tagged.value as string);
+    case 'regexp':
+      return new RegExp(tagged.source as string, tagged.flags as string);
+    case 'map':
+      return new Map((tagged.entries as SerializedValue[][]).map(([key, entry]) => [reviveResult(key), reviveResult(entry)]));
+    case 'set':
+      return new Set((tagged.values as SerializedValue[]).map(reviveResult));
+    case 'error': {
+      const error = new Error(tagged.message as string);
+      error.name = tagged.name as string;
+      error.stack = (tagged.stack as string | null) ?? `${error.name}: ${error.message}`;
+      return error;
+    }
+    case 'function':
+      return placeholder(`[Function: ${tagged.name}]`, tagged);
+    case 'circular':
+      return placeholder(`[Circular ${tagged.path}]`, tagged);
+    case 'locator':
+      return placeholder(
+        `Locator(${tagged.description}${tagged.count === undefined ? '' : `, ${tagged.count} match${tagged.count === 1 ? '' : 'es'}`})` +
+        (tagged.preview ? ` ${tagged.preview}` : ''),
+        tagged
+      );
+    case 'elementhandle':
+    case 'jshandle':
+      return placeholder(`${tagged.description}${tagged.preview ? ` ${tagged.preview}` : ''}`, tagged);
+    case 'page':
+      return placeholder(`Page(${tagged.url})`, tagged);
+    case 'browserwindow':
+      return placeholder(`BrowserWindow(${tagged.id}, ${JSON.stringify(tagged.title)}) ${tagged.url}`, tagged);
+    case 'typedarray':
+      return placeholder(`${tagged.className}(base64: ${truncate(tagged.base64 as string, 60)})`, tagged);
+    default:
+      return placeholder(`[${tagged.$type}]`, tagged);
+  }
+}
@@ -1,18 +1,99 @@
 import * as http from 'http';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
 import type { ElectronApplication, Page } from 'playwright';
-import { saveSession, clearSession, getDefaultPort } from './session.js';
+import {
+  saveSession,
+  clearSession,
+  resolveSessionName,
+  getSocketPath,
+  DEFAULT_SESSION_NAME,
+  SessionInfo,
+} from './session.js';
 import { launchElectron, getAppInfo } from './electron-launcher.js';
+import { serializeResult, SerializedValue } from './serialize.js';
+import { evaluateInMain } from './main-eval.js';
+import { stubDialog, stubShell, listStubs, clearStubs } from './stubs.js';
+import { installIpcCapture, queryIpc, invokeIpcHandler } from './ipc.js';
+import { installMenuTracking, getMenu, clickMenuItem, MenuSource } from './menus.js';
+import { runLaunchHook, LaunchHook } from './config.js';
+import { needsVirtualDisplay, startXvfb, stopXvfb, XvfbDisplay } from './xvfb.js';
+import {
+  attachElectron,
+  getAttachedAppInfo,
+  isLaunchedApp,
+  AttachOptions,
+  SessionApp,
+  MAIN_PROCESS_UNAVAILABLE,
+} from './attach.js';
+import { addRoute, listRoutes, clearRoutes, applyRoutes } from './routes.js';
+import { startHarRecording, stopHarRecording, moveHarRecording, isRecordingHar } from './har.js';
+import { watchRendererCrashes, recordCrash, listCrashes, describeCrash, CrashEvent } from './crashes.js';
+import {
+  runScript,
+  runScriptModule,
+  runCancellable,
+  describeScriptError,
+  settles,
+  CANCEL_GRACE_PERIOD,
+  ScriptContext,
+} from './script-runner.js';
+import { attachLogCapture, queryLogs, isLogLevel } from './logs.js';
+import { captureScreenshot, ScreenshotOptions } from './screenshot.js';
+import { captureSnapshot } from './snapshot.js';
+import { trackVideos, listVideos, saveVideo, saveAllVideos } from './video.js';
+import { listWindows, resolveWindow, describeWindow, waitForMatchingWindow } from './windows.js';
 
 interface ServerState {
-  app: ElectronApplication | null;
+  app: SessionApp | null;
   window: Page | null;
   appPath: string;
+  sessionName: string;
+  /** Persistent scope shared by every script run in this session */
+  ctx: Record<string, unknown>;
+  /** Whether a Playwright trace is being recorded */
+  tracing: boolean;
+  /** Run scripts side by side instead of one at a time */
+  concurrentScripts: boolean;
+  /** Tail of the FIFO queue scripts run through when not concurrent */
+  scriptQueue: Promise<unknown>;
+  /** Whether IPC traffic is being recorded */
+  capturingIpc: boolean;
+  /** Private Xvfb the app runs on in headless mode */
+  xvfb: XvfbDisplay | null;
+  /** CDP endpoint, when attached to an app this server didn't launch */
+  cdpEndpoint: string | null;
+  /** Set while the session closes the app on purpose, so the exit isn't a crash */
+  closing: boolean;
+  /** Relaunch the app after a crash, up to `max` times */
+  restartPolicy: { max: number; count: number } | null;
+  /** Set while the app is being relaunched */
+  restarting: boolean;
+  /** Launch the app again with the session's options */
+  relaunch: (() => Promise<ElectronApplication>) | null;
+  /** End the session once the app is gone for good */
+  endSession: (() => void) | null;
 }
 
 const state: ServerState = {
   app: null,
   window: null,
   appPath: '',
+  sessionName: DEFAULT_SESSION_NAME,
+  ctx: {},
+  tracing: false,
+  concurrentScripts: false,
+  scriptQueue: Promise.resolve(),
+  capturingIpc: false,
+  xvfb: null,
+  cdpEndpoint: null,
+  closing: false,
+  restartPolicy: null,
+  restarting: false,
+  relaunch: null,
+  endSession: null,
 };
 
 /**
@@ -33,6 +114,19 @@ async function parseBody(req: http.IncomingMessage): Promise<Record<string, unkn
   });
 }
 
+/**
+ * Check that a request carries the session's auth token
+ */
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return false;
+  }
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
 /**
  * Send JSON response
  */
@@ -41,21 +135,143 @@ function sendJson(res: http.ServerResponse, status: number, data: unknown): void
   res.end(JSON.stringify(data));
 }
 
+/** Longest delay setTimeout can wait for */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Read the optional `timeout` of a request, in milliseconds. Answers 400 and
+ * returns null unless it is a positive whole number setTimeout can wait for.
+ */
+function readTimeout(body: Record<string, unknown>, res: http.ServerResponse): number | undefined | null {
+  const { timeout } = body;
+  if (timeout === undefined) {
+    return undefined;
+  }
+  if (typeof timeout !== 'number' || !Number.isInteger(timeout) || timeout <= 0 || timeout > MAX_TIMEOUT) {
+    sendJson(res, 400, { error: `Invalid timeout ${JSON.stringify(timeout)}. Use a positive number of milliseconds` });
+    return null;
+  }
+  return timeout;
+}
+
+/**
+ * Run a task after every script queued before it has settled, unless the
+ * session runs scripts concurrently. Once the task is done, the queue also
+ * waits for `release` before starting the next one.
+ */
+function enqueueScript<T>(task: () => Promise<T>, release?: () => Promise<unknown>): Promise<T> {
+  if (state.concurrentScripts) {
+    return task();
+  }
+  const result = state.scriptQueue.then(task);
+  state.scriptQueue = result.catch(() => undefined).then(() => release?.());
+  return result;
+}
+
+/**
+ * Run a script and send its serialized result. Errors thrown by the script
+ * are flagged with `scriptError` so clients can tell them apart from
+ * server or transport failures.
+ *
+ * The script is cancelled when it runs longer than `timeout` milliseconds or
+ * the client disconnects (e.g. Ctrl+C) before the result is sent.
+ */
+async function sendScriptResult(
+  res: http.ServerResponse,
+  run: (context: ScriptContext) => Promise<unknown>,
+  context: ScriptContext,
+  options: {
+    timeout?: number;
+    describeError?: (error: unknown) => string;
+    /** Encode the result for the response (default: serializeResult) */
+    encode?: (result: unknown) => Promise<SerializedValue>;
+  } = {}
+): Promise<void> {
+  const { timeout, describeError = String, encode = serializeResult } = options;
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort(new Error('Script cancelled by the client'));
+    }
+  });
+
+  // A cancelled script is answered straight away, but the next script waits
+  // until it has actually stopped (or the grace period is over)
+  let script: Promise<unknown> | undefined;
+  const release = () => script ? settles(script, CANCEL_GRACE_PERIOD) : Promise.resolve();
+
+  let result: unknown;
+  try {
+    result = await enqueueScript(async () => {
+      const timer = timeout
+        ? setTimeout(() => controller.abort(new Error(`Script timed out after ${timeout}ms`)), timeout)
+        : undefined;
+      try {
+        return await runCancellable(scriptContext => {
+          script = run(scriptContext);
+          return script;
+        }, context, controller.signal);
+      } finally {
+        clearTimeout(timer);
+      }
+    }, release);
+  } catch (error) {
+    sendJson(res, 500, { error: describeError(error), scriptError: true });
+    return;
+  }
+  sendJson(res, 200, { success: true, result: await encode(result) });
+}
+
+/**
+ * Get the app for endpoints that need its main process. Answers 409 when the
+ * session is attached over CDP, where the main process can't be reached.
+ */
+function requireMainProcess(res: http.ServerResponse): ElectronApplication | null {
+  if (!state.app || !state.window) {
+    sendJson(res, 500, { error: 'No app running' });
+    return null;
+  }
+  if (!isLaunchedApp(state.app)) {
+    sendJson(res, 409, { error: MAIN_PROCESS_UNAVAILABLE, attached: true });
+    return null;
+  }
+  return state.app;
+}
+
+/**
+ * Handle /health endpoint - answers without touching the app, so clients can
+ * tell a live session server from a stale session file
+ */
+function handleHealth(res: http.ServerResponse): void {
+  sendJson(res, 200, {
+    ok: true,
+    session: state.sessionName,
+    pid: process.pid,
+    appRunning: state.app !== null,
+    restarting: state.restarting,
+  });
+}
+
 /**
  * Handle /status endpoint
  */
 async function handleStatus(res: http.ServerResponse): Promise<void> {
   if (!state.app) {
-    sendJson(res, 500, { error: 'No app running' });
+    sendJson(res, 500, { error: state.restarting ? 'The app is restarting after a crash' : 'No app running' });
     return;
   }
 
   try {
-    const info = await getAppInfo(state.app);
+    const info = isLaunchedApp(state.app)
+      ? await getAppInfo(state.app)
+      : { ...await getAttachedAppInfo(state.app), attached: true, cdpEndpoint: state.cdpEndpoint };
     sendJson(res, 200, { 
       status: 'running',
+      session: state.sessionName,
       appPath: state.appPath,
-      ...info 
+      ...info,
+      restarts: state.restartPolicy?.count ?? 0,
+      crashes: listCrashes(),
     });
   } catch (error) {
     sendJson(res, 500, { error: String(error) });
@@ -73,6 +289,10 @@ async function handleEval(req: http.IncomingMessage, res: http.ServerResponse):
 
   try {
     const body = await parseBody(req);
+    const timeout = readTimeout(body, res);
+    if (timeout === null) {
+      return;
+    }
     const script = body.script as string;
 
     if (!script) {
@@ -80,22 +300,443 @@ async function handleEval(req: http.IncomingMessage, res: http.ServerResponse):
       return;
     }
 
-    // Create an async function from the script string
-    const AsyncFunction = Object.getPrototypeOf(async function(){}).constructor;
-    const fn = new AsyncFunction('app', 'window', script);
-    
-    const result = await fn(state.app, state.window);
-    sendJson(res, 200, { success: true, result });
+    const app = state.app;
+    const window = await resolveWindow(app, body.window as string | undefined, state.window);
+    await sendScriptResult(
+      res,
+      context => runScript(script, context),
+      { app, window, ctx: state.ctx },
+      { timeout }
+    );
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /main-eval endpoint - execute a script in the Electron main process
+ */
+async function handleMainEval(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app || !state.window) {
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const timeout = readTimeout(body, res);
+    if (timeout === null) {
+      return;
+    }
+    const script = body.script as string;
+
+    if (!script) {
+      sendJson(res, 400, { error: 'Missing script parameter' });
+      return;
+    }
+
+    await sendScriptResult(
+      res,
+      () => evaluateInMain(app, script, body.displayName as string | undefined),
+      { app, window: state.window, ctx: state.ctx },
+      {
+        timeout,
+        // Already encoded in the main process
+        encode: async result => result as SerializedValue,
+      }
+    );
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /run endpoint - execute a script file, or module source read from stdin
+ */
+async function handleRun(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app || !state.window) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const timeout = readTimeout(body, res);
+    if (timeout === null) {
+      return;
+    }
+    const file = body.file as string | undefined;
+    const source = body.source as string | undefined;
+
+    if (!file && source === undefined) {
+      sendJson(res, 400, { error: 'Missing file or source parameter' });
+      return;
+    }
+
+    // Source without a file (stdin) resolves its imports from the client's cwd
+    const filename = file ?? path.join((body.cwd as string | undefined) ?? process.cwd(), 'stdin.mjs');
+    const displayName = file ?? '<stdin>';
+
+    const app = state.app;
+    const window = await resolveWindow(app, body.window as string | undefined, state.window);
+    await sendScriptResult(
+      res,
+      context => runScriptModule({ filename, source, displayName }, context),
+      { app, window, ctx: state.ctx },
+      {
+        timeout,
+        describeError: error => describeScriptError(error, displayName),
+      }
+    );
   } catch (error) {
     sendJson(res, 500, { error: String(error) });
   }
 }
 
 /**
- * Handle /screenshot endpoint
+ * Handle /screenshot endpoint - save to `output`, or return the image base64-encoded when omitted
  */
 async function handleScreenshot(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-  if (!state.window) {
+  if (!state.app || !state.window) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const outputPath = body.output as string | undefined;
+    const options = (body.options as ScreenshotOptions | undefined) ?? {};
+
+    // Like Playwright, infer the image type from the output file extension
+    const type = options.type ?? (outputPath && /\.jpe?g$/i.test(outputPath) ? 'jpeg' : 'png');
+
+    const window = await resolveWindow(state.app, body.window as string | undefined, state.window);
+    const image = await captureScreenshot(window, { ...options, type });
+
+    if (outputPath) {
+      await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.promises.writeFile(outputPath, image);
+      sendJson(res, 200, { success: true, path: outputPath, type });
+    } else {
+      sendJson(res, 200, { success: true, type, base64: image.toString('base64') });
+    }
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /snapshot endpoint - return the accessibility tree of a window
+ */
+async function handleSnapshot(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app || !state.window) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const window = await resolveWindow(state.app, body.window as string | undefined, state.window);
+    const snapshot = await captureSnapshot(window, {
+      selector: body.selector as string | undefined,
+      interestingOnly: Boolean(body.interestingOnly),
+    });
+    sendJson(res, 200, snapshot);
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /windows endpoint - list all open windows
+ */
+async function handleWindows(res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, { windows: await listWindows(state.app) });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /wait-window endpoint - block until a new matching window opens
+ */
+async function handleWaitWindow(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const timeout = readTimeout(body, res);
+    if (timeout === null) {
+      return;
+    }
+    const page = await waitForMatchingWindow(state.app, {
+      match: body.match as string | undefined,
+      timeout,
+    });
+    sendJson(res, 200, { success: true, window: await describeWindow(state.app, page) });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /logs endpoint - return buffered console, page error and main-process output
+ */
+function handleLogs(url: URL, res: http.ServerResponse): void {
+  const level = url.searchParams.get('level') ?? undefined;
+  const since = url.searchParams.get('since') ?? undefined;
+  const after = url.searchParams.get('after');
+
+  if (level !== undefined && !isLogLevel(level)) {
+    sendJson(res, 400, { error: `Invalid level "${level}"` });
+    return;
+  }
+  if (since !== undefined && isNaN(Date.parse(since))) {
+    sendJson(res, 400, { error: `Invalid since timestamp "${since}"` });
+    return;
+  }
+
+  sendJson(res, 200, {
+    logs: queryLogs({
+      level,
+      since,
+      after: after ? parseInt(after, 10) : undefined,
+    }),
+  });
+}
+
+/**
+ * Handle /ipc endpoint - return recorded IPC traffic
+ */
+async function handleIpc(url: URL, res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app) {
+    return;
+  }
+  if (!state.capturingIpc) {
+    sendJson(res, 409, { error: 'IPC capture is not enabled. Start the session with "pw-electron open --capture-ipc".' });
+    return;
+  }
+
+  const channel = url.searchParams.get('channel') ?? undefined;
+  const after = url.searchParams.get('after');
+  if (channel !== undefined) {
+    try {
+      new RegExp(channel);
+    } catch {
+      sendJson(res, 400, { error: `Invalid channel pattern "${channel}"` });
+      return;
+    }
+  }
+
+  try {
+    sendJson(res, 200, {
+      messages: await queryIpc(app, { channel, after: after ? parseInt(after, 10) : undefined }),
+    });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /ipc/invoke endpoint - call an ipcMain.handle or webContents.ipc.handle handler directly
+ */
+async function handleIpcInvoke(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app || !state.window) {
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const timeout = readTimeout(body, res);
+    if (timeout === null) {
+      return;
+    }
+    const channel = body.channel as string;
+
+    if (!channel) {
+      sendJson(res, 400, { error: 'Missing channel parameter' });
+      return;
+    }
+
+    await sendScriptResult(
+      res,
+      () => invokeIpcHandler(app, channel, (body.args as unknown[] | undefined) ?? []),
+      { app, window: state.window, ctx: state.ctx },
+      {
+        timeout,
+        // Already encoded in the main process
+        encode: async result => result as SerializedValue,
+      }
+    );
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Parse and check the menu source and tray index of a menu request
+ */
+function parseMenuQuery(source: unknown, tray: unknown): { source: MenuSource; tray: number } {
+  const menuSource = (source ?? 'application') as MenuSource;
+  if (!['application', 'context', 'tray'].includes(menuSource)) {
+    throw new Error(`Invalid menu source "${menuSource}"`);
+  }
+  const trayIndex = tray === undefined || tray === null ? 0 : Number(tray);
+  if (!Number.isInteger(trayIndex) || trayIndex < 0) {
+    throw new Error(`Invalid tray index "${tray}"`);
+  }
+  return { source: menuSource, tray: trayIndex };
+}
+
+/**
+ * Handle /menu endpoint - return a menu's item tree
+ */
+async function handleMenu(url: URL, res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app) {
+    return;
+  }
+
+  let query;
+  try {
+    query = parseMenuQuery(url.searchParams.get('source') ?? undefined, url.searchParams.get('tray') ?? undefined);
+  } catch (error) {
+    sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, { items: await getMenu(app, query) });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /menu/click endpoint - click a menu item by its label path
+ */
+async function handleMenuClick(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app) {
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const itemPath = body.path as string[] | undefined;
+
+    if (!Array.isArray(itemPath) || itemPath.length === 0) {
+      sendJson(res, 400, { error: 'Missing path parameter' });
+      return;
+    }
+
+    let query;
+    try {
+      query = parseMenuQuery(body.source, body.tray);
+    } catch (error) {
+      sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    sendJson(res, 200, { success: true, path: await clickMenuItem(app, itemPath, query) });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /trace/start endpoint - start recording a Playwright trace
+ */
+async function handleTraceStart(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+  if (state.tracing) {
+    sendJson(res, 409, { error: 'A trace is already being recorded. Stop it first with "pw-electron trace stop <out.zip>".' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    await state.app.context().tracing.start({
+      screenshots: Boolean(body.screenshots),
+      snapshots: Boolean(body.snapshots),
+      sources: true,
+      title: `pw-electron session "${state.sessionName}"`,
+    });
+    state.tracing = true;
+    sendJson(res, 200, { success: true });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /trace/stop endpoint - stop recording and save the trace
+ */
+async function handleTraceStop(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+  if (!state.tracing) {
+    sendJson(res, 409, { error: 'No trace is being recorded. Start one with "pw-electron trace start".' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    if (!body.output) {
+      sendJson(res, 400, { error: 'Missing output parameter' });
+      return;
+    }
+
+    // Check the output location first: a failed stop leaves Playwright tracing
+    const outputPath = path.resolve(body.output as string);
+    try {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.accessSync(path.dirname(outputPath), fs.constants.W_OK);
+    } catch (error) {
+      sendJson(res, 400, { error: `Cannot write the trace to ${outputPath}: ${error instanceof Error ? error.message : error}` });
+      return;
+    }
+
+    await state.app.context().tracing.stop({ path: outputPath });
+    state.tracing = false;
+    sendJson(res, 200, { success: true, path: outputPath });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /videos endpoint - list the video of every window opened during the session
+ */
+async function handleVideos(res: http.ServerResponse): Promise<void> {
+  try {
+    sendJson(res, 200, { videos: await listVideos() });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /video/save endpoint - save one window's video, or all of them
+ */
+async function handleVideoSave(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
     sendJson(res, 500, { error: 'No app running' });
     return;
   }
@@ -103,14 +744,195 @@ async function handleScreenshot(req: http.IncomingMessage, res: http.ServerRespo
   try {
     const body = await parseBody(req);
     const outputPath = body.output as string;
+    const finalize = Boolean(body.finalize);
 
     if (!outputPath) {
       sendJson(res, 400, { error: 'Missing output parameter' });
       return;
     }
 
-    await state.window.screenshot({ path: outputPath });
-    sendJson(res, 200, { success: true, path: outputPath });
+    if (body.all) {
+      sendJson(res, 200, { success: true, videos: await saveAllVideos(outputPath, { finalize }) });
+    } else {
+      const window = await resolveWindow(state.app, body.window as string | undefined, state.window);
+      sendJson(res, 200, { success: true, videos: [await saveVideo(window, outputPath, { finalize })] });
+    }
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /stub/dialog endpoint - replace native dialogs with canned answers
+ */
+async function handleStubDialog(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app) {
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    await stubDialog(app, {
+      openPaths: body.openPaths as string[] | undefined,
+      savePath: body.savePath as string | undefined,
+      messageBoxResponse: body.messageBoxResponse as number | undefined,
+    });
+    sendJson(res, 200, { success: true });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /stub/shell endpoint - capture shell calls instead of running them
+ */
+async function handleStubShell(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app) {
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    await stubShell(app, { captureOpenExternal: Boolean(body.captureOpenExternal) });
+    sendJson(res, 200, { success: true });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /stubs endpoint - list active stubs and the calls they intercepted
+ */
+async function handleStubs(res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app) {
+    return;
+  }
+
+  try {
+    sendJson(res, 200, await listStubs(app));
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /stubs/clear endpoint - restore stubbed functions and forget recorded calls
+ */
+async function handleStubsClear(res: http.ServerResponse): Promise<void> {
+  const app = requireMainProcess(res);
+  if (!app) {
+    return;
+  }
+
+  try {
+    await clearStubs(app);
+    sendJson(res, 200, { success: true });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle POST /routes endpoint - mock or fail requests matching a URL glob
+ */
+async function handleRouteAdd(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    if (typeof body.url !== 'string' || !body.url) {
+      sendJson(res, 400, { error: 'Missing url parameter' });
+      return;
+    }
+    if (body.action !== 'fulfill' && body.action !== 'abort') {
+      sendJson(res, 400, { error: 'action must be "fulfill" or "abort"' });
+      return;
+    }
+    const route = await addRoute(state.app.context(), {
+      url: body.url,
+      action: body.action,
+      fulfillPath: body.fulfillPath as string | undefined,
+      status: body.status as number | undefined,
+      contentType: body.contentType as string | undefined,
+      errorCode: body.errorCode as string | undefined,
+    });
+    sendJson(res, 200, { route });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle GET /routes endpoint - list the session's routes
+ */
+function handleRoutes(res: http.ServerResponse): void {
+  sendJson(res, 200, { routes: listRoutes() });
+}
+
+/**
+ * Handle /routes/clear endpoint - remove every route, or those for one URL glob
+ */
+async function handleRoutesClear(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const removed = await clearRoutes(state.app.context(), body.url as string | undefined);
+    sendJson(res, 200, { removed });
+  } catch (error) {
+    sendJson(res, 500, { error: String(error) });
+  }
+}
+
+/**
+ * Handle /har/start endpoint - start recording network traffic
+ */
+function handleHarStart(res: http.ServerResponse): void {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+  if (isRecordingHar()) {
+    sendJson(res, 409, { error: 'A HAR is already being recorded. Stop it first with "pw-electron har stop <out.har>".' });
+    return;
+  }
+
+  startHarRecording(state.app.context());
+  sendJson(res, 200, { success: true });
+}
+
+/**
+ * Handle /har/stop endpoint - stop recording and save the HAR file
+ */
+async function handleHarStop(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (!state.app) {
+    sendJson(res, 500, { error: 'No app running' });
+    return;
+  }
+  if (!isRecordingHar()) {
+    sendJson(res, 409, { error: 'No HAR is being recorded. Start one with "pw-electron har start".' });
+    return;
+  }
+
+  try {
+    const body = await parseBody(req);
+    const outputPath = body.output as string;
+
+    if (!outputPath) {
+      sendJson(res, 400, { error: 'Missing output parameter' });
+      return;
+    }
+
+    sendJson(res, 200, { success: true, ...await stopHarRecording(outputPath) });
   } catch (error) {
     sendJson(res, 500, { error: String(error) });
   }
@@ -120,55 +942,368 @@ async function handleScreenshot(req: http.IncomingMessage, res: http.ServerRespo
  * Handle /close endpoint - close the app and server
  */
 async function handleClose(res: http.ServerResponse, server: http.Server): Promise<void> {
-  sendJson(res, 200, { success: true, message: 'Closing app' });
+  // An attached app keeps running; closing it only disconnects
+  sendJson(res, 200, state.cdpEndpoint
+    ? { success: true, message: 'Detaching from app', detached: true }
+    : { success: true, message: 'Closing app' });
   
+  state.closing = true;
   if (state.app) {
     await state.app.close();
   }
-  clearSession();
+  stopDisplay();
+  clearSession(state.sessionName);
   server.close();
   process.exit(0);
 }
 
+/**
+ * Stop the private Xvfb, if the session started one
+ */
+function stopDisplay(): void {
+  if (state.xvfb) {
+    stopXvfb(state.xvfb);
+    state.xvfb = null;
+  }
+}
+
+/**
+ * Whether the restart policy allows another relaunch
+ */
+function canRestart(): boolean {
+  return state.restartPolicy !== null && !state.restarting && state.restartPolicy.count < state.restartPolicy.max;
+}
+
+/**
+ * Close what is left of a crashed app and launch it again, re-resolving the
+ * default window. Ends the session if the relaunch fails.
+ */
+async function restartApp(crash: CrashEvent): Promise<void> {
+  const policy = state.restartPolicy!;
+  policy.count++;
+  state.restarting = true;
+  console.log(`Restarting the app (restart ${policy.count} of ${policy.max})`);
+
+  // Clearing state.app first makes the old app's 'close' handler ignore its exit
+  const previous = state.app;
+  state.app = null;
+  state.window = null;
+  state.tracing = false;
+  state.capturingIpc = false;
+  await previous?.close().catch(() => undefined);
+
+  try {
+    const app = await state.relaunch!();
+    if (isRecordingHar()) {
+      moveHarRecording(app.context());
+    }
+    crash.restarted = true;
+    console.log('App restarted');
+  } catch (error) {
+    console.error('Restart failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+    state.endSession?.();
+  } finally {
+    state.restarting = false;
+  }
+}
+
+/**
+ * Record the app's crashes, restart it if the policy allows, and end the
+ * session when it closes
+ */
+function watchApp(app: SessionApp): void {
+  watchRendererCrashes(app, window => {
+    if (state.app !== app || state.closing) {
+      return;
+    }
+    const crash = recordCrash({ kind: 'renderer-crash', exitCode: null, signal: null, window });
+    console.error(describeCrash(crash));
+    if (canRestart()) {
+      void restartApp(crash);
+    }
+  });
+
+  app.on('close', () => {
+    if (state.app !== app) {
+      // Replaced by a restart
+      return;
+    }
+
+    // Playwright emits 'close' after the process has exited, so its exit status is known
+    const child = isLaunchedApp(app) ? app.process() : null;
+    if (child && !state.closing && (child.exitCode !== 0 || child.signalCode)) {
+      const crash = recordCrash({ kind: 'main-process-exit', exitCode: child.exitCode, signal: child.signalCode });
+      console.error(describeCrash(crash));
+      if (canRestart()) {
+        void restartApp(crash);
+        return;
+      }
+    }
+    state.endSession?.();
+  });
+}
+
 /**
  * Start the session server
  */
 export async function startServer(options: {
   appPath: string;
+  /** Electron binary to run a project, app.asar or main script with */
+  electronPath?: string;
   args?: string[];
   timeout?: number;
+  /** Port for the session server; a free port is picked when omitted */
   port?: number;
+  /** Listen on a Unix domain socket (named pipe on Windows) instead of TCP */
+  socket?: boolean;
+  /** Session name, so several apps can run side by side */
+  session?: string;
+  /** Record a video of every window into this directory */
+  recordVideo?: string;
+  /** Run eval/run scripts side by side instead of queueing them FIFO */
+  concurrentScripts?: boolean;
+  /** Record IPC traffic between the renderers and the main process */
+  captureIpc?: boolean;
+  /** Working directory for the app */
+  cwd?: string;
+  /** Extra environment variables for the app */
+  env?: Record<string, string>;
+  /** Run before the app is launched */
+  preLaunch?: LaunchHook;
+  /** Run once the first window has loaded and the server is listening */
+  postLaunch?: LaunchHook;
+  /** Working directory for shell command hooks (default: the app's cwd) */
+  hookCwd?: string;
+  /** On Linux without a display, run the app on a private Xvfb */
+  headless?: boolean;
+  /** Xvfb screen size, WIDTHxHEIGHT[xDEPTH] (default 1280x720x24) */
+  screenSize?: string;
+  /** Relaunch the app when its main process or a renderer crashes */
+  restartOnCrash?: boolean;
+  /** How many times to relaunch before ending the session (default 3) */
+  maxRestarts?: number;
+  /** Answer the app's requests from this HAR file instead of the network */
+  replayHar?: string;
+  /** What to do with requests the HAR has no entry for (default "abort") */
+  harNotFound?: 'abort' | 'fallback';
 }): Promise<void> {
-  const port = options.port || getDefaultPort();
+  const sessionName = resolveSessionName(options.session);
+  state.sessionName = sessionName;
+  state.concurrentScripts = Boolean(options.concurrentScripts);
+  const env = { ...options.env };
+
+  if (options.headless) {
+    if (needsVirtualDisplay({ ...process.env, ...env })) {
+      state.xvfb = await startXvfb({ screenSize: options.screenSize });
+      // Don't leave Xvfb behind however the server exits
+      process.on('exit', stopDisplay);
+      env.DISPLAY = state.xvfb.display;
+      console.log(`Started Xvfb on display ${state.xvfb.display}`);
+    } else if (process.platform === 'linux') {
+      console.log(`Using the existing display ${env.DISPLAY ?? process.env.DISPLAY ?? process.env.WAYLAND_DISPLAY}, not starting Xvfb`);
+    } else {
+      console.log(`--headless only starts Xvfb on Linux; ${process.platform} always has a display`);
+    }
+  }
+  const hookOptions = { cwd: options.hookCwd ?? options.cwd, env };
+
+  if (options.preLaunch) {
+    console.log('Running pre-launch hook');
+    await runLaunchHook(options.preLaunch, { session: sessionName, appPath: options.appPath }, hookOptions);
+  }
   
-  // Launch the Electron app
-  console.log(`Launching Electron app from: ${options.appPath}`);
-  state.app = await launchElectron({
-    executablePath: options.appPath,
-    args: options.args,
-    timeout: options.timeout,
-  });
+  // Launch the Electron app, and again after a crash when restarts are enabled
   state.appPath = options.appPath;
-  
-  // Wait for first window
-  state.window = await state.app.firstWindow();
-  await state.window.waitForLoadState('domcontentloaded');
+  state.restartPolicy = options.restartOnCrash ? { max: options.maxRestarts ?? 3, count: 0 } : null;
+  const launch = async (): Promise<ElectronApplication> => {
+    console.log(`Launching Electron app from: ${options.appPath}`);
+    const app = await launchElectron({
+      executablePath: options.appPath,
+      electronPath: options.electronPath,
+      args: options.args,
+      timeout: options.timeout,
+      cwd: options.cwd,
+      env,
+      recordVideo: options.recordVideo ? { dir: options.recordVideo } : undefined,
+    });
+    attachLogCapture(app);
+    trackVideos(app);
+    // Routes added later take precedence over the HAR, so mocks still work when replaying
+    if (options.replayHar) {
+      await app.context().routeFromHAR(options.replayHar, { notFound: options.harNotFound ?? 'abort' });
+    }
+    await applyRoutes(app.context());
+    await installMenuTracking(app);
+    if (options.captureIpc) {
+      await installIpcCapture(app);
+    }
+
+    // Wait for first window
+    const window = await app.firstWindow();
+    await window.waitForLoadState('domcontentloaded');
+
+    state.app = app;
+    state.window = window;
+    state.capturingIpc = Boolean(options.captureIpc);
+    watchApp(app);
+    return app;
+  };
+  state.relaunch = launch;
+  const app = await launch();
   
   // Get app info
-  const info = await getAppInfo(state.app);
+  const info = await getAppInfo(app);
   console.log(`App loaded: ${info.name} v${info.version}`);
 
-  // Create HTTP server
+  const { postLaunch } = options;
+  serveSession({
+    sessionName,
+    appPath: options.appPath,
+    port: options.port,
+    socket: options.socket,
+    beforeReady: postLaunch ? async () => {
+      console.log('Running post-launch hook');
+      // Restarts may have replaced the first app by now
+      const launched = state.app && isLaunchedApp(state.app) ? state.app : app;
+      const context = { session: sessionName, appPath: options.appPath, app: launched, window: state.window! };
+      try {
+        await runLaunchHook(postLaunch, context, hookOptions);
+      } catch (error) {
+        console.error('Post-launch hook failed:', error instanceof Error ? error.message : error);
+        // Closing the app exits through the 'close' handler, with this code
+        process.exitCode = 1;
+        state.closing = true;
+        await state.app?.close().catch(() => undefined);
+        clearSession(sessionName);
+        process.exit(1);
+      }
+    } : undefined,
+  });
+}
+
+/**
+ * Attach to an Electron app started with --remote-debugging-port and serve it
+ * as a session. Renderer commands work as in a launched session; main-process
+ * commands report that they need one. Closing the session only disconnects.
+ */
+export async function attachServer(options: AttachOptions & {
+  /** Port for the session server; a free port is picked when omitted */
+  port?: number;
+  /** Listen on a Unix domain socket (named pipe on Windows) instead of TCP */
+  socket?: boolean;
+  /** Session name, so several apps can run side by side */
+  session?: string;
+  /** Run eval/run scripts side by side instead of queueing them FIFO */
+  concurrentScripts?: boolean;
+}): Promise<void> {
+  const sessionName = resolveSessionName(options.session);
+  state.sessionName = sessionName;
+  state.concurrentScripts = Boolean(options.concurrentScripts);
+
+  const { app, endpoint } = await attachElectron(options);
+  console.log(`Attached to ${endpoint}`);
+  state.app = app;
+  state.appPath = endpoint;
+  state.cdpEndpoint = endpoint;
+  attachLogCapture(state.app);
+  trackVideos(state.app);
+  watchApp(state.app);
+
+  state.window = await state.app.firstWindow({ timeout: options.timeout });
+  await state.window.waitForLoadState('domcontentloaded');
+
+  const info = await getAttachedAppInfo(state.app);
+  console.log(`App: ${info.name || '(unknown)'} ${info.version ? `v${info.version}` : ''} (Electron ${info.electronVersion || 'unknown'})`);
+
+  serveSession({ sessionName, appPath: endpoint, port: options.port, socket: options.socket, cdpEndpoint: endpoint });
+}
+
+/**
+ * Serve the app in `state` to clients, register the session, and end it when
+ * the app closes or the server is interrupted
+ */
+function serveSession(options: {
+  sessionName: string;
+  appPath: string;
+  port?: number;
+  socket?: boolean;
+  /** Set when attached over CDP; the app is detached from instead of closed */
+  cdpEndpoint?: string;
+  /**
+   * Run once the server is listening, e.g. the post-launch hook. The session
+   * is registered as starting meanwhile, so it can be driven but isn't ready.
+   */
+  beforeReady?: () => Promise<void>;
+}): void {
+  const { sessionName } = options;
+  const sessionFlag = sessionName === DEFAULT_SESSION_NAME ? '' : ` --session ${sessionName}`;
+  const token = crypto.randomBytes(32).toString('hex');
+
   const server = http.createServer(async (req, res) => {
-    const url = req.url || '/';
+    const requestUrl = new URL(req.url || '/', 'http://127.0.0.1');
+    const url = requestUrl.pathname;
+
+    if (!isAuthorized(req, token)) {
+      sendJson(res, 401, { error: 'Unauthorized: missing or invalid session token' });
+      return;
+    }
     
     try {
-      if (req.method === 'GET' && url === '/status') {
+      if (req.method === 'GET' && url === '/health') {
+        handleHealth(res);
+      } else if (req.method === 'GET' && url === '/status') {
         await handleStatus(res);
       } else if (req.method === 'POST' && url === '/eval') {
         await handleEval(req, res);
+      } else if (req.method === 'POST' && url === '/main-eval') {
+        await handleMainEval(req, res);
+      } else if (req.method === 'POST' && url === '/run') {
+        await handleRun(req, res);
       } else if (req.method === 'POST' && url === '/screenshot') {
         await handleScreenshot(req, res);
+      } else if (req.method === 'POST' && url === '/snapshot') {
+        await handleSnapshot(req, res);
+      } else if (req.method === 'GET' && url === '/windows') {
+        await handleWindows(res);
+      } else if (req.method === 'POST' && url === '/wait-window') {
+        await handleWaitWindow(req, res);
+      } else if (req.method === 'GET' && url === '/logs') {
+        handleLogs(requestUrl, res);
+      } else if (req.method === 'GET' && url === '/ipc') {
+        await handleIpc(requestUrl, res);
+      } else if (req.method === 'POST' && url === '/ipc/invoke') {
+        await handleIpcInvoke(req, res);
+      } else if (req.method === 'GET' && url === '/menu') {
+        await handleMenu(requestUrl, res);
+      } else if (req.method === 'POST' && url === '/menu/click') {
+        await handleMenuClick(req, res);
+      } else if (req.method === 'POST' && url === '/trace/start') {
+        await handleTraceStart(req, res);
+      } else if (req.method === 'POST' && url === '/trace/stop') {
+        await handleTraceStop(req, res);
+      } else if (req.method === 'GET' && url === '/videos') {
+        await handleVideos(res);
+      } else if (req.method === 'POST' && url === '/video/save') {
+        await handleVideoSave(req, res);
+      } else if (req.method === 'POST' && url === '/stub/dialog') {
+        await handleStubDialog(req, res);
+      } else if (req.method === 'POST' && url === '/stub/shell') {
+        await handleStubShell(req, res);
+      } else if (req.method === 'GET' && url === '/stubs') {
+        await handleStubs(res);
+      } else if (req.method === 'POST' && url === '/stubs/clear') {
+        await handleStubsClear(res);
+      } else if (req.method === 'POST' && url === '/routes') {
+        await handleRouteAdd(req, res);
+      } else if (req.method === 'GET' && url === '/routes') {
+        handleRoutes(res);
+      } else if (req.method === 'POST' && url === '/routes/clear') {
+        await handleRoutesClear(req, res);
+      } else if (req.method === 'POST' && url === '/har/start') {
+        handleHarStart(res);
+      } else if (req.method === 'POST' && url === '/har/stop') {
+        await handleHarStop(req, res);
       } else if (req.method === 'POST' && url === '/close') {
         await handleClose(res, server);
       } else {
@@ -179,30 +1314,76 @@ export async function startServer(options: {
     }
   });
 
-  server.listen(port, '127.0.0.1', () => {
-    console.log(`Session server listening on http://127.0.0.1:${port}`);
+  const onListening = (endpoint: Pick<SessionInfo, 'port' | 'socket'>) => {
+    console.log(`Session "${sessionName}" listening on ${endpoint.socket ?? `http://127.0.0.1:${endpoint.port}`}`);
     console.log('Commands:');
-    console.log('  pw-electron -e "await window.click(\'button\')"');
-    console.log('  pw-electron screenshot output.png');
-    console.log('  pw-electron close');
-    console.log('\nPress Ctrl+C to close the application');
+    console.log(`  pw-electron${sessionFlag} -e "await window.click('button')"`);
+    console.log(`  pw-electron${sessionFlag} screenshot output.png`);
+    console.log(`  pw-electron${sessionFlag} close`);
+    console.log(options.cdpEndpoint
+      ? '\nPress Ctrl+C to detach (the app keeps running)'
+      : '\nPress Ctrl+C to close the application');
     
     // Save session info
-    saveSession({
-      port,
+    const session: SessionInfo = {
+      name: sessionName,
+      ...endpoint,
+      token,
       appPath: options.appPath,
+      cdpEndpoint: options.cdpEndpoint,
       pid: process.pid,
       startedAt: new Date().toISOString(),
+    };
+    if (!options.beforeReady) {
+      saveSession(session);
+      return;
+    }
+    saveSession({ ...session, starting: true });
+    void options.beforeReady().then(() => {
+      saveSession(session);
+      console.log(`Session "${sessionName}" ready`);
     });
+  };
+
+  // Listening fails e.g. when --port is taken; don't leave the app running without a session
+  server.once('error', async (error: NodeJS.ErrnoException) => {
+    const endpoint = options.socket ? getSocketPath(sessionName) : `port ${options.port}`;
+    console.error(error.code === 'EADDRINUSE'
+      ? `Failed to start the session server: ${endpoint} is in use`
+      : `Failed to start the session server: ${error.message}`);
+    state.closing = true;
+    await state.app?.close().catch(() => undefined);
+    stopDisplay();
+    process.exit(1);
   });
 
+  if (options.socket) {
+    const socket = getSocketPath(sessionName);
+    if (process.platform !== 'win32') {
+      // A socket file left behind by a crashed server would make listen fail
+      fs.rmSync(socket, { force: true });
+    }
+    server.listen(socket, () => {
+      if (process.platform !== 'win32') {
+        fs.chmodSync(socket, 0o600);
+      }
+      onListening({ socket });
+    });
+  } else {
+    server.listen(options.port || 0, '127.0.0.1', () => {
+      onListening({ port: (server.address() as AddressInfo).port });
+    });
+  }
+
   // Handle cleanup on exit
   const cleanup = async () => {
-    console.log('\nClosing Electron application...');
+    console.log(options.cdpEndpoint ? '\nDetaching from the app...' : '\nClosing Electron application...');
+    state.closing = true;
     if (state.app) {
       await state.app.close();
     }
-    clearSession();
+    stopDisplay();
+    clearSession(sessionName);
     server.close();
     process.exit(0);
   };
@@ -210,11 +1391,14 @@ export async function startServer(options: {
   process.on('SIGINT', cleanup);
   process.on('SIGTERM', cleanup);
 
-  // Handle app crash/close
-  state.app.on('close', () => {
-    console.log('Electron app closed');
-    clearSession();
+  // Called by watchApp once the app has closed (or the CDP connection went
+  // away) and won't be restarted
+  state.endSession = () => {
+    console.log(options.cdpEndpoint ? 'Disconnected from the app' : 'Electron app closed');
+    stopDisplay();
+    clearSession(sessionName);
     server.close();
-    process.exit(0);
-  });
+    // Exits 0 unless whoever closed the app set process.exitCode
+    process.exit();
+  };
 }
@@ -3,40 +3,121 @@ import * as path from 'path';
 import * as os from 'os';
 
 export interface SessionInfo {
-  port: number;
+  name: string;
+  /** TCP port on 127.0.0.1 the session server listens on (unset for socket sessions) */
+  port?: number;
+  /** Unix domain socket (or Windows named pipe) the session server listens on */
+  socket?: string;
+  /** Secret clients must send with every request */
+  token: string;
   appPath: string;
+  /** CDP endpoint, for sessions attached to an app they didn't launch */
+  cdpEndpoint?: string;
   pid: number;
   startedAt: string;
+  /** Set while the post-launch hook runs: commands work, but waiters keep waiting */
+  starting?: boolean;
 }
 
 const SESSION_DIR = path.join(os.homedir(), '.pw-electron');
-const SESSION_FILE = path.join(SESSION_DIR, 'session.json');
+const SESSIONS_DIR = path.join(SESSION_DIR, 'sessions');
+const LOGS_DIR = path.join(SESSION_DIR, 'logs');
+const SOCKETS_DIR = path.join(SESSION_DIR, 'sockets');
+
+export const DEFAULT_SESSION_NAME = 'default';
+
+/**
+ * Get the directory where pw-electron keeps its state
+ */
+export function getSessionDir(): string {
+  return SESSION_DIR;
+}
+
+/**
+ * Resolve the session name to use, falling back to PW_ELECTRON_SESSION and then the default
+ */
+export function resolveSessionName(name?: string): string {
+  const resolved = name || process.env.PW_ELECTRON_SESSION || DEFAULT_SESSION_NAME;
+  if (!/^[A-Za-z0-9_.-]+$/.test(resolved) || resolved === '.' || resolved === '..') {
+    throw new Error(
+      `Invalid session name "${resolved}". ` +
+      'Use letters, digits, ".", "-" and "_" only.'
+    );
+  }
+  return resolved;
+}
 
 /**
- * Ensure the session directory exists
+ * Get the path of the file that stores a session's info
+ */
+function getSessionFile(name: string): string {
+  return path.join(SESSIONS_DIR, `${name}.json`);
+}
+
+/**
+ * Get the path of the log file a detached session server writes to,
+ * creating its directory if needed
+ */
+export function getSessionLogFile(name?: string): string {
+  if (!fs.existsSync(LOGS_DIR)) {
+    fs.mkdirSync(LOGS_DIR, { recursive: true });
+  }
+  return path.join(LOGS_DIR, `${resolveSessionName(name)}.log`);
+}
+
+/**
+ * Get the Unix domain socket path (or Windows named pipe) for a session,
+ * creating its directory if needed
+ */
+export function getSocketPath(name?: string): string {
+  const sessionName = resolveSessionName(name);
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\pw-electron-${sessionName}`;
+  }
+  if (!fs.existsSync(SOCKETS_DIR)) {
+    fs.mkdirSync(SOCKETS_DIR, { recursive: true, mode: 0o700 });
+  }
+  return path.join(SOCKETS_DIR, `${sessionName}.sock`);
+}
+
+/**
+ * Describe where a session server can be reached
+ */
+export function describeEndpoint(session: SessionInfo): string {
+  return session.socket ? `unix:${session.socket}` : `127.0.0.1:${session.port}`;
+}
+
+/**
+ * Ensure the session directory exists, readable only by the current user
  */
 function ensureSessionDir(): void {
-  if (!fs.existsSync(SESSION_DIR)) {
-    fs.mkdirSync(SESSION_DIR, { recursive: true });
+  if (!fs.existsSync(SESSIONS_DIR)) {
+    fs.mkdirSync(SESSIONS_DIR, { recursive: true, mode: 0o700 });
   }
 }
 
 /**
- * Save session info to disk
+ * Save session info to disk.
+ *
+ * The file holds the session's auth token, so it is only readable by the current user.
  */
 export function saveSession(session: SessionInfo): void {
   ensureSessionDir();
-  fs.writeFileSync(SESSION_FILE, JSON.stringify(session, null, 2));
+  const file = getSessionFile(session.name);
+  fs.writeFileSync(file, JSON.stringify(session, null, 2), { mode: 0o600 });
+  fs.chmodSync(file, 0o600);
 }
 
 /**
  * Load session info from disk
  */
-export function loadSession(): SessionInfo | null {
+export function loadSession(name?: string): SessionInfo | null {
+  const sessionName = resolveSessionName(name);
   try {
-    if (fs.existsSync(SESSION_FILE)) {
-      const data = fs.readFileSync(SESSION_FILE, 'utf-8');
-      return JSON.parse(data);
+    const file = getSessionFile(sessionName);
+    if (fs.existsSync(file)) {
+      const data = fs.readFileSync(file, 'utf-8');
+      return { name: sessionName, ...JSON.parse(data) };
     }
   } catch {
     // Session file doesn't exist or is invalid
@@ -45,12 +126,18 @@ export function loadSession(): SessionInfo | null {
 }
 
 /**
- * Clear the session file
+ * Clear the session file, and the session's Unix socket if it has one
  */
-export function clearSession(): void {
+export function clearSession(name?: string): void {
   try {
-    if (fs.existsSync(SESSION_FILE)) {
-      fs.unlinkSync(SESSION_FILE);
+    const session = loadSession(name);
+    if (session?.socket && process.platform !== 'win32' && fs.existsSync(session.socket)) {
+      fs.unlinkSync(session.socket);
+    }
+
+    const file = getSessionFile(resolveSessionName(name));
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
     }
   } catch {
     // Ignore errors
@@ -58,7 +145,34 @@ export function clearSession(): void {
 }
 
 /**
- * Check if a session is still alive by checking if the process is running
+ * Load every session that has a file on disk, alive or not
+ */
+export function listSessions(): SessionInfo[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(SESSIONS_DIR);
+  } catch {
+    return [];
+  }
+
+  const sessions: SessionInfo[] = [];
+  for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+    try {
+      const session = loadSession(path.basename(file, '.json'));
+      if (session) {
+        sessions.push(session);
+      }
+    } catch {
+      // Not a valid session name, skip it
+    }
+  }
+  return sessions;
+}
+
+/**
+ * Check if a session is still alive by checking if the process is running.
+ * The pid may have been reused by another process since, so use probeSession
+ * to be sure the server is up.
  */
 export function isSessionAlive(session: SessionInfo): boolean {
   try {
@@ -69,10 +183,3 @@ export function isSessionAlive(session: SessionInfo): boolean {
     return false;
   }
 }
-
-/**
- * Get the default port for the session server
- */
-export function getDefaultPort(): number {
-  return 9847; // Default port for pw-electron server
-}
@@ -0,0 +1,364 @@
+import type { Locator, Page } from 'playwright';
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+export interface SnapshotOptions {
+  /** Only snapshot the element matching this selector and its descendants */
+  selector?: string;
+  /** Keep only interactive elements, headings and named landmarks */
+  interestingOnly?: boolean;
+}
+
+export interface SnapshotNode {
+  /** ARIA role, or "text" for text content that isn't part of a named element */
+  role: string;
+  /** Accessible name */
+  name?: string;
+  /** States such as checked, disabled, expanded, level, pressed and selected */
+  states?: Record<string, boolean | number | string>;
+  /** Text content, for elements without child elements and for text nodes */
+  text?: string;
+  /** Properties such as a link's url or a textbox's placeholder */
+  props?: Record<string, string>;
+  /** Suggested locator, relative to the window, for interactive elements */
+  locator?: string;
+  children?: SnapshotNode[];
+}
+
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  /** Root the snapshot was taken of, when not the whole window */
+  selector?: string;
+  nodes: SnapshotNode[];
+}
+
+/** Roles a user can click, type into or otherwise operate */
+const INTERACTIVE_ROLES = new Set([
+  'button', 'checkbox', 'combobox', 'link', 'listbox', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'radio', 'scrollbar', 'searchbox', 'slider', 'spinbutton',
+  'switch', 'tab', 'textbox', 'treeitem',
+]);
+
+/** Containers kept by --interesting-only, so the elements in them have some context */
+const LANDMARK_ROLES = new Set([
+  'alertdialog', 'banner', 'complementary', 'contentinfo', 'dialog', 'form', 'grid', 'main',
+  'menu', 'menubar', 'navigation', 'region', 'search', 'tablist', 'tabpanel', 'toolbar', 'tree',
+]);
+
+/**
+ * Undo the quoting Playwright applies to YAML values that need it
+ */
+function unquoteValue(value: string): string {
+  if (!value.startsWith('"')) {
+    return value;
+  }
+  // Control characters are escaped as \xNN, which JSON spells \u00NN
+  return JSON.parse(value.replace(/\\x([0-9a-f]{2})|\\./gi, (escape, hex) => (hex ? `\\u00${hex}` : escape)));
+}
+
+/**
+ * Split a "- key: value" entry into its key and inline value
+ */
+function splitEntry(entry: string): { key: string; value?: string } {
+  let key: string;
+  let rest: string;
+  if (entry.startsWith('\'')) {
+    let end = 1;
+    while (end < entry.length && (entry[end] !== '\'' || entry[end + 1] === '\'')) {
+      end += entry[end] === '\'' ? 2 : 1;
+    }
+    key = entry.slice(1, end).replace(/''/g, '\'');
+    rest = entry.slice(end + 1);
+  } else {
+    const colon = entry.search(/:(\s|$)/);
+    key = colon < 0 ? entry : entry.slice(0, colon);
+    rest = colon < 0 ? '' : entry.slice(colon);
+  }
+
+  const value = rest.replace(/^:/, '').trim();
+  return value ? { key, value: unquoteValue(value) } : { key };
+}
+
+/**
+ * Parse a key like `checkbox "Remember me" [checked] [disabled]`
+ */
+function parseKey(key: string): SnapshotNode {
+  const role = /^\S+/.exec(key)?.[0] ?? key;
+  const node: SnapshotNode = { role };
+  let rest = key.slice(role.length).trimStart();
+
+  if (rest.startsWith('"')) {
+    let end = 1;
+    while (end < rest.length && rest[end] !== '"') {
+      end += rest[end] === '\\' ? 2 : 1;
+    }
+    node.name = JSON.parse(rest.slice(0, end + 1));
+    rest = rest.slice(end + 1);
+  }
+
+  for (const [, state, value] of rest.matchAll(/\[([\w-]+)(?:=([^\]]*))?\]/g)) {
+    node.states ??= {};
+    node.states[state] = value === undefined ? true : /^\d+$/.test(value) ? Number(value) : value;
+  }
+  return node;
+}
+
+/**
+ * Turn Playwright's YAML aria snapshot into a tree of nodes
+ */
+export function parseAriaSnapshot(yaml: string): SnapshotNode[] {
+  const nodes: SnapshotNode[] = [];
+  const stack: { indent: number; children: SnapshotNode[]; node?: SnapshotNode }[] = [{ indent: -1, children: nodes }];
+
+  for (const line of yaml.split('\n')) {
+    const match = /^( *)- (.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const indent = match[1].length;
+    while (stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    const { key, value } = splitEntry(match[2]);
+
+    if (key === 'text') {
+      parent.children.push({ role: 'text', text: value ?? '' });
+    } else if (key.startsWith('/')) {
+      if (parent.node) {
+        parent.node.props = { ...parent.node.props, [key.slice(1)]: value ?? '' };
+      }
+    } else {
+      const node = parseKey(key);
+      if (value !== undefined) {
+        node.text = value;
+      }
+      node.children = [];
+      parent.children.push(node);
+      stack.push({ indent, children: node.children, node });
+    }
+  }
+
+  const dropEmptyChildren = (list: SnapshotNode[]) => list.forEach(node => {
+    if (node.children?.length === 0) {
+      delete node.children;
+    } else if (node.children) {
+      dropEmptyChildren(node.children);
+    }
+  });
+  dropEmptyChildren(nodes);
+  return nodes;
+}
+
+/**
+ * Call `visit` for every node, parents before their children
+ */
+function walk(nodes: SnapshotNode[], visit: (node: SnapshotNode) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    walk(node.children ?? [], visit);
+  }
+}
+
+/**
+ * Quote a string for a JavaScript locator expression
+ */
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Normalize a name the way getByRole compares names that aren't exact
+ */
+function looseName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Set a suggested locator on every interactive node, preferring, in order:
+ * a unique test id, a unique role and name, a unique id, and finally the
+ * role and name with .nth(). The k-th node of a role in the snapshot is the
+ * k-th element getByRole finds, since both skip hidden elements and follow
+ * document order.
+ *
+ * `skip` is the node of the scope element itself, if it is interactive: the
+ * scope's getByRole only finds its descendants.
+ */
+async function suggestLocators(
+  scope: Page | Locator,
+  nodes: SnapshotNode[],
+  prefix: string,
+  skip?: SnapshotNode
+): Promise<void> {
+  const byRole = new Map<string, SnapshotNode[]>();
+  walk(nodes, node => {
+    if (INTERACTIVE_ROLES.has(node.role) && node !== skip) {
+      byRole.set(node.role, [...byRole.get(node.role) ?? [], node]);
+    }
+  });
+
+  for (const [role, roleNodes] of byRole) {
+    type Candidate = { testId: string | null; testIdUnique: boolean; id: string; idUnique: boolean };
+    const candidates: Candidate[] = await scope.getByRole(role as AriaRole).evaluateAll((elements: {
+      id: string;
+      getAttribute(name: string): string | null;
+      ownerDocument: { querySelectorAll(selector: string): ArrayLike<{ id: string; getAttribute(name: string): string | null }> };
+    }[]) => elements.map(element => {
+      const testId = element.getAttribute('data-testid');
+      const document = element.ownerDocument;
+      const count = (selector: string, matches: (other: { id: string; getAttribute(name: string): string | null }) => boolean) =>
+        Array.from(document.querySelectorAll(selector)).filter(matches).length;
+      return {
+        testId,
+        testIdUnique: testId !== null && count('[data-testid]', other => other.getAttribute('data-testid') === testId) === 1,
+        id: element.id,
+        idUnique: Boolean(element.id) && count('[id]', other => other.id === element.id) === 1,
+      };
+    })).catch(() => []);
+    // Only trust per-element attributes when the elements line up with the snapshot
+    const elements = candidates.length === roleNodes.length ? candidates : [];
+
+    roleNodes.forEach((node, index) => {
+      const element = elements[index];
+      const roleArg = quote(role);
+      if (element?.testId && element.testIdUnique) {
+        node.locator = `${prefix}getByTestId(${quote(element.testId)})`;
+      } else if (node.name) {
+        const name = node.name;
+        const sameName = roleNodes.filter(other => other.name === name);
+        const looseMatches = roleNodes.filter(other => other.name && looseName(other.name).includes(looseName(name)));
+        if (looseMatches.length === 1) {
+          node.locator = `${prefix}getByRole(${roleArg}, { name: ${quote(name)} })`;
+        } else if (sameName.length === 1) {
+          node.locator = `${prefix}getByRole(${roleArg}, { name: ${quote(name)}, exact: true })`;
+        } else {
+          node.locator = `${prefix}getByRole(${roleArg}, { name: ${quote(name)}, exact: true }).nth(${sameName.indexOf(node)})`;
+        }
+      } else if (element?.idUnique && /^[A-Za-z][\w-]*$/.test(element.id)) {
+        node.locator = `${prefix}locator('#${element.id}')`;
+      } else {
+        node.locator = `${prefix}getByRole(${roleArg})${roleNodes.length > 1 ? `.nth(${index})` : ''}`;
+      }
+    });
+  }
+}
+
+/**
+ * Keep only interactive elements, headings and named landmarks. Other
+ * elements are replaced by whatever interesting elements they contain.
+ */
+export function filterInteresting(nodes: SnapshotNode[]): SnapshotNode[] {
+  return nodes.flatMap(node => {
+    const children = filterInteresting(node.children ?? []);
+    const interesting = INTERACTIVE_ROLES.has(node.role) ||
+      node.role === 'heading' ||
+      (LANDMARK_ROLES.has(node.role) && (Boolean(node.name) || children.length > 0));
+    if (!interesting) {
+      return children;
+    }
+    const filtered: SnapshotNode = { ...node, children };
+    if (!children.length) {
+      delete filtered.children;
+    }
+    return [filtered];
+  });
+}
+
+/**
+ * Take an accessibility snapshot of a window, or of the element matching
+ * `options.selector`, with a suggested locator for every interactive element
+ */
+export async function captureSnapshot(window: Page, options: SnapshotOptions = {}): Promise<PageSnapshot> {
+  const root = window.locator(options.selector ?? 'body');
+  if (options.selector && await root.count() === 0) {
+    throw new Error(`No element matches selector "${options.selector}"`);
+  }
+  const scope = options.selector ? root.first() : window;
+
+  const nodes = parseAriaSnapshot(await root.first().ariaSnapshot({ timeout: 10000 }));
+
+  // An interactive root is the single top-level node, and is located by the selector itself
+  let rootNode: SnapshotNode | undefined;
+  if (options.selector && nodes.length === 1 && INTERACTIVE_ROLES.has(nodes[0].role)) {
+    const isRoot = await root.first().and(window.getByRole(nodes[0].role as AriaRole)).count().catch(() => 0) > 0;
+    if (isRoot) {
+      rootNode = nodes[0];
+      rootNode.locator = `locator(${quote(options.selector)}).first()`;
+    }
+  }
+  await suggestLocators(scope, nodes, options.selector ? `locator(${quote(options.selector)}).first().` : '', rootNode);
+
+  return {
+    url: window.url(),
+    title: await window.title().catch(() => ''),
+    ...(options.selector ? { selector: options.selector } : {}),
+    nodes: options.interestingOnly ? filterInteresting(nodes) : nodes,
+  };
+}
+
+/**
+ * Whether a string contains a C0 or C1 control character
+ */
+function hasControlChar(text: string): boolean {
+  return [...text].some(char => {
+    const code = char.charCodeAt(0);
+    return code <= 0x1f || (code >= 0x7f && code <= 0x9f);
+  });
+}
+
+/**
+ * Whether a YAML scalar has to be quoted, following the rules Playwright's
+ * aria snapshots use
+ */
+function needsQuotes(text: string): boolean {
+  return text.length === 0 ||
+    /^\s|\s$|^-|^\[|[:](\s|$)|\s#|[\n\r{}`]/.test(text) ||
+    hasControlChar(text) ||
+    /^[&*\],?!>|@"'#%]/.test(text) ||
+    !isNaN(Number(text)) ||
+    ['y', 'n', 'yes', 'no', 'true', 'false', 'on', 'off', 'null'].includes(text.toLowerCase());
+}
+
+/**
+ * Render nodes in Playwright's aria snapshot YAML, with each suggested locator
+ * as a trailing comment. The result still works with toMatchAriaSnapshot.
+ */
+export function formatSnapshotYaml(nodes: SnapshotNode[], indent = ''): string {
+  const lines: string[] = [];
+  for (const node of nodes) {
+    if (node.role === 'text') {
+      lines.push(`${indent}- text: ${needsQuotes(node.text ?? '') ? JSON.stringify(node.text ?? '') : node.text}`);
+      continue;
+    }
+
+    let key = node.role;
+    if (node.name) {
+      key += ` ${JSON.stringify(node.name)}`;
+    }
+    for (const [state, value] of Object.entries(node.states ?? {})) {
+      key += value === true ? ` [${state}]` : ` [${state}=${value}]`;
+    }
+    key = needsQuotes(key) ? `'${key.replace(/'/g, '\'\'')}'` : key;
+    const comment = node.locator ? `  # ${node.locator}` : '';
+
+    const props = Object.entries(node.props ?? {});
+    if (!node.children && props.length === 0) {
+      const text = node.text === undefined ? '' : `: ${needsQuotes(node.text) ? JSON.stringify(node.text) : node.text}`;
+      lines.push(`${indent}- ${key}${text}${comment}`);
+      continue;
+    }
+
+    lines.push(`${indent}- ${key}:${comment}`);
+    for (const [prop, value] of props) {
+      lines.push(`${indent}  - /${prop}: ${needsQuotes(value) ? JSON.stringify(value) : value}`);
+    }
+    if (node.text !== undefined) {
+      lines.push(`${indent}  - text: ${needsQuotes(node.text) ? JSON.stringify(node.text) : node.text}`);
+    }
+    if (node.children) {
+      lines.push(formatSnapshotYaml(node.children, `${indent}  `));
+    }
+  }
+  return lines.filter(Boolean).join('\n');
+}
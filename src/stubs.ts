@@ -0,0 +1,150 @@
+import type { ElectronApplication } from 'playwright';
+
+export interface DialogStubOptions {
+  /** Files "picked" by showOpenDialog; the dialog is cancelled when unset */
+  openPaths?: string[];
+  /** File "picked" by showSaveDialog; the dialog is cancelled when unset */
+  savePath?: string;
+  /** Button index showMessageBox answers with (default: the box's cancelId, or 0) */
+  messageBoxResponse?: number;
+}
+
+export interface ShellStubOptions {
+  /** Record shell.openExternal calls instead of opening a browser */
+  captureOpenExternal?: boolean;
+}
+
+export interface StubCall {
+  timestamp: string;
+  /** The stubbed function, e.g. "dialog.showOpenDialog" */
+  method: string;
+  /** Arguments it was called with; BrowserWindows are replaced by `{ window: <id> }` */
+  args: unknown[];
+  /** What the stub returned */
+  result: unknown;
+}
+
+export interface StubState {
+  dialog?: DialogStubOptions;
+  shell?: ShellStubOptions;
+  calls: StubCall[];
+}
+
+/**
+ * Replace the `dialog` module's native dialogs in the main process, so flows
+ * that open file pickers or message boxes don't hang.
+ *
+ * Every show*Dialog, showMessageBox and showErrorBox function is stubbed, sync
+ * and async. Calling this again replaces the previous dialog options.
+ */
+export async function stubDialog(app: ElectronApplication, options: DialogStubOptions): Promise<void> {
+  // Stringified and run in the main process, so it can't refer to anything outside its body
+  await app.evaluate(({ dialog }, options) => {
+    const g = globalThis as { __pwElectronStubs?: { originals: Record<string, unknown>; calls: unknown[]; config: Record<string, unknown> } };
+    const stubs = g.__pwElectronStubs ??= { originals: {}, calls: [], config: {} };
+    stubs.config.dialog = options;
+
+    const sanitize = (args: unknown[]): unknown[] => JSON.parse(JSON.stringify(args, (_key, value) =>
+      value && typeof value === 'object' && 'webContents' in value ? { window: (value as { id: number }).id } : value
+    ) ?? '[]');
+
+    // What each stubbed function returns; sync variants return the bare value
+    const answer = (method: string, args: unknown[]): unknown => {
+      const config = stubs.config.dialog as typeof options;
+      const dialogOptions = (args.find(arg => arg && typeof arg === 'object' && !('webContents' in arg)) ?? {}) as { cancelId?: number };
+      const response = config.messageBoxResponse ?? dialogOptions.cancelId ?? 0;
+      switch (method) {
+        case 'showOpenDialog':
+          return { canceled: !config.openPaths, filePaths: config.openPaths ?? [] };
+        case 'showOpenDialogSync':
+          return config.openPaths;
+        case 'showSaveDialog':
+          return { canceled: !config.savePath, filePath: config.savePath ?? '' };
+        case 'showSaveDialogSync':
+          return config.savePath;
+        case 'showMessageBox':
+          return { response, checkboxChecked: false };
+        case 'showMessageBoxSync':
+          return response;
+        default:
+          return undefined;
+      }
+    };
+
+    const methods = [
+      'showOpenDialog', 'showOpenDialogSync',
+      'showSaveDialog', 'showSaveDialogSync',
+      'showMessageBox', 'showMessageBoxSync',
+      'showErrorBox',
+    ];
+    const target = dialog as unknown as Record<string, unknown>;
+    for (const method of methods) {
+      const key = `dialog.${method}`;
+      if (!(key in stubs.originals)) {
+        stubs.originals[key] = target[method];
+      }
+      target[method] = (...args: unknown[]) => {
+        const result = answer(method, args);
+        stubs.calls.push({ timestamp: new Date().toISOString(), method: key, args: sanitize(args), result: result ?? null });
+        return method.endsWith('Sync') || method === 'showErrorBox' ? result : Promise.resolve(result);
+      };
+    }
+  }, options);
+}
+
+/**
+ * Replace `shell` functions in the main process, recording their calls
+ */
+export async function stubShell(app: ElectronApplication, options: ShellStubOptions): Promise<void> {
+  // Stringified and run in the main process, so it can't refer to anything outside its body
+  await app.evaluate(({ shell }, options) => {
+    const g = globalThis as { __pwElectronStubs?: { originals: Record<string, unknown>; calls: unknown[]; config: Record<string, unknown> } };
+    const stubs = g.__pwElectronStubs ??= { originals: {}, calls: [], config: {} };
+    stubs.config.shell = options;
+
+    const target = shell as unknown as Record<string, unknown>;
+    const key = 'shell.openExternal';
+    if (!(key in stubs.originals)) {
+      stubs.originals[key] = target.openExternal;
+    }
+    if (options.captureOpenExternal) {
+      target.openExternal = (...args: unknown[]) => {
+        stubs.calls.push({ timestamp: new Date().toISOString(), method: key, args: JSON.parse(JSON.stringify(args)), result: null });
+        return Promise.resolve();
+      };
+    } else {
+      target.openExternal = stubs.originals[key];
+      delete stubs.originals[key];
+    }
+  }, options);
+}
+
+/**
+ * Get the active stubs and every call they intercepted, oldest first
+ */
+export async function listStubs(app: ElectronApplication): Promise<StubState> {
+  return app.evaluate(() => {
+    const g = globalThis as { __pwElectronStubs?: { calls: unknown[]; config: Record<string, unknown> } };
+    const stubs = g.__pwElectronStubs;
+    return {
+      dialog: stubs?.config.dialog,
+      shell: stubs?.config.shell,
+      calls: stubs?.calls ?? [],
+    } as StubState;
+  });
+}
+
+/**
+ * Restore every stubbed function and forget the recorded calls
+ */
+export async function clearStubs(app: ElectronApplication): Promise<void> {
+  await app.evaluate(electron => {
+    const g = globalThis as { __pwElectronStubs?: { originals: Record<string, unknown> } };
+    const modules = electron as unknown as Record<string, Record<string, unknown>>;
+    for (const [key, original] of Object.entries(g.__pwElectronStubs?.originals ?? {})) {
+      const [module, method] = key.split('.');
+      modules[module][method] = original;
+    }
+    delete g.__pwElectronStubs;
+  });
+}
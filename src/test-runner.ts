@@ -0,0 +1,389 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ElectronApplication, Page } from 'playwright';
+import { launchElectron, LaunchOptions } from './electron-launcher.js';
+import {
+  runScriptModule,
+  runCancellable,
+  describeScriptError,
+  settles,
+  CANCEL_GRACE_PERIOD,
+} from './script-runner.js';
+
+export interface TestRunOptions {
+  /** Test files, directories (searched recursively) or glob patterns */
+  patterns: string[];
+  launch: LaunchOptions;
+  /** Launches the app (default launchElectron) */
+  launchApp?: (options: LaunchOptions) => Promise<ElectronApplication>;
+  /**
+   * Launch the app fresh for every attempt at a test file, retries included,
+   * instead of once for the whole run
+   */
+  isolate?: boolean;
+  /** Fail a test that runs longer than this many milliseconds (default 30000) */
+  timeout?: number;
+  /** Run a failed test again up to this many times (default 0) */
+  retries?: number;
+  /** Save a screenshot of the window when an attempt fails */
+  screenshotOnFailure?: boolean;
+  /** Directory for failure screenshots (default "test-results") */
+  outputDir?: string;
+  /** Called when a test has finished, including all of its retries */
+  onTestEnd?: (result: TestResult) => void;
+}
+
+export interface TestAttempt {
+  status: 'passed' | 'failed';
+  durationMs: number;
+  error?: string;
+  /** Screenshot of the window when the attempt failed */
+  screenshot?: string;
+}
+
+export interface TestResult {
+  /** Test file path, relative to the current directory */
+  name: string;
+  file: string;
+  /** `flaky` when the test failed at first but passed on a retry */
+  status: 'passed' | 'failed' | 'flaky';
+  durationMs: number;
+  attempts: TestAttempt[];
+}
+
+export interface TestReport {
+  startedAt: string;
+  durationMs: number;
+  appPath: string;
+  passed: number;
+  failed: number;
+  flaky: number;
+  tests: TestResult[];
+}
+
+/** Files a directory is searched for; other modules in it are helpers */
+const TEST_FILE_PATTERN = /\.(?:test|spec)\.(?:[cm]?js|[cm]?ts)$/;
+
+/**
+ * Convert a glob pattern to a regex. Supports `**`, `*`, `?` and `{a,b}`.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches any number of directories, including none
+      regex += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        regex += '\\{';
+        continue;
+      }
+      regex += `(?:${pattern.slice(i + 1, end).split(',').map(part => part.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+      i = end;
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * List the files under a directory, skipping node_modules and hidden entries
+ */
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+      continue;
+    }
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walk(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Find the test files matching a list of files, directories and glob patterns,
+ * sorted and without duplicates
+ */
+export function findTestFiles(patterns: string[]): string[] {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!/[*?{]/.test(pattern)) {
+      const resolved = path.resolve(pattern);
+      if (!fs.existsSync(resolved)) {
+        throw new Error(`No such file or directory: ${pattern}`);
+      }
+      if (fs.statSync(resolved).isDirectory()) {
+        walk(resolved).filter(file => TEST_FILE_PATTERN.test(file)).forEach(file => files.add(file));
+      } else {
+        files.add(resolved);
+      }
+      continue;
+    }
+
+    // Walk from the part of the pattern before the first wildcard
+    const normalized = path.resolve(pattern).split(path.sep).join('/');
+    const wildcard = normalized.search(/[*?{]/);
+    const base = normalized.slice(0, normalized.lastIndexOf('/', wildcard) + 1) || '/';
+    const regex = globToRegExp(normalized);
+    if (fs.existsSync(base)) {
+      walk(base)
+        .filter(file => regex.test(file.split(path.sep).join('/')))
+        .forEach(file => files.add(file));
+    }
+  }
+
+  return [...files].sort();
+}
+
+interface RunningApp {
+  app: ElectronApplication;
+  window: Page;
+  /** Set once the app has closed, e.g. because a test closed or crashed it */
+  closed: boolean;
+}
+
+/**
+ * Launch the app and wait for its first window to load
+ */
+async function launch(
+  options: LaunchOptions,
+  launchApp: (options: LaunchOptions) => Promise<ElectronApplication> = launchElectron
+): Promise<RunningApp> {
+  const app = await launchApp(options);
+  const running: RunningApp = { app, window: await app.firstWindow(), closed: false };
+  app.once('close', () => {
+    running.closed = true;
+  });
+  await running.window.waitForLoadState('domcontentloaded');
+  return running;
+}
+
+/**
+ * Start running a test file once, failing it if it runs longer than the timeout.
+ *
+ * `result` settles with the test, `script` once the script itself has stopped:
+ * a timed-out script keeps going until its next Playwright call.
+ */
+function startAttempt(
+  file: string,
+  app: ElectronApplication,
+  window: Page,
+  expect: unknown,
+  timeout: number
+): { result: Promise<void>; script: () => Promise<unknown> | undefined } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`Test timed out after ${timeout}ms`)), timeout);
+  let script: Promise<unknown> | undefined;
+  const result = runCancellable(
+    context => {
+      script = runScriptModule({ filename: file }, context);
+      return script;
+    },
+    { app, window, ctx: {}, expect },
+    controller.signal
+  ).then(() => undefined).finally(() => clearTimeout(timer));
+  return { result, script: () => script };
+}
+
+/**
+ * Run test files against an Electron app.
+ *
+ * Each file is one test: a script with `app`, `window`, `ctx` and Playwright's
+ * `expect` in scope that passes unless it throws. By default the app is
+ * launched once and shared by every test; with `isolate` it is launched fresh
+ * for every attempt.
+ */
+export async function runTests(options: TestRunOptions): Promise<TestReport> {
+  const files = findTestFiles(options.patterns);
+  if (files.length === 0) {
+    throw new Error(`No test files found matching: ${options.patterns.join(', ')}`);
+  }
+
+  const timeout = options.timeout ?? 30000;
+  const retries = options.retries ?? 0;
+  const outputDir = path.resolve(options.outputDir ?? 'test-results');
+  const { expect } = await import('playwright/test');
+
+  const startedAt = new Date();
+  const tests: TestResult[] = [];
+  let shared: RunningApp | undefined;
+
+  try {
+    if (!options.isolate) {
+      shared = await launch(options.launch, options.launchApp);
+    }
+
+    for (const file of files) {
+      const name = path.relative(process.cwd(), file);
+      const attempts: TestAttempt[] = [];
+
+      for (let attempt = 0; attempt <= retries; attempt++) {
+        const started = Date.now();
+        if (shared?.closed) {
+          shared = undefined;
+        }
+        let session = shared;
+        let attemptRun: ReturnType<typeof startAttempt> | undefined;
+        try {
+          session ??= await launch(options.launch, options.launchApp);
+          if (!options.isolate) {
+            shared = session;
+          }
+          // Later tests get whichever window is open now, if the first one was closed
+          const window = session.window.isClosed() ? await session.app.firstWindow() : session.window;
+          attemptRun = startAttempt(file, session.app, window, expect, timeout);
+          await attemptRun.result;
+          attempts.push({ status: 'passed', durationMs: Date.now() - started });
+        } catch (error) {
+          const failed: TestAttempt = {
+            status: 'failed',
+            durationMs: Date.now() - started,
+            error: describeScriptError(error, file),
+          };
+
+          if (options.screenshotOnFailure && session) {
+            const screenshot = path.join(
+              outputDir,
+              `${name.replace(/[^A-Za-z0-9_.-]+/g, '-')}-attempt${attempt + 1}.png`
+            );
+            try {
+              fs.mkdirSync(outputDir, { recursive: true });
+              const window = session.app.windows().find(page => !page.isClosed());
+              if (window) {
+                await window.screenshot({ path: screenshot, timeout: 5000 });
+                failed.screenshot = screenshot;
+              }
+            } catch {
+              // The app may have crashed or closed its windows; report the failure without a screenshot
+            }
+          }
+
+          // A script still running after the grace period would act on the next
+          // test's window, so the app is closed and relaunched for the next test
+          const script = attemptRun?.script();
+          if (!options.isolate && session && script && !await settles(script, CANCEL_GRACE_PERIOD)) {
+            failed.error += '\nThe test kept running after it failed; the app was relaunched for the next test.';
+            await session.app.close().catch(() => undefined);
+            shared = undefined;
+          }
+          attempts.push(failed);
+        } finally {
+          if (options.isolate && session) {
+            await session.app.close().catch(() => undefined);
+          }
+        }
+
+        if (attempts[attempts.length - 1].status === 'passed') {
+          break;
+        }
+      }
+
+      const passed = attempts[attempts.length - 1].status === 'passed';
+      const result: TestResult = {
+        name,
+        file,
+        status: passed ? (attempts.length > 1 ? 'flaky' : 'passed') : 'failed',
+        durationMs: attempts.reduce((total, attempt) => total + attempt.durationMs, 0),
+        attempts,
+      };
+      tests.push(result);
+      options.onTestEnd?.(result);
+    }
+  } finally {
+    await shared?.app.close().catch(() => undefined);
+  }
+
+  return {
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    appPath: options.launch.executablePath,
+    passed: tests.filter(test => test.status === 'passed').length,
+    failed: tests.filter(test => test.status === 'failed').length,
+    flaky: tests.filter(test => test.status === 'flaky').length,
+    tests,
+  };
+}
+
+/**
+ * Whether a character may appear in XML 1.0: tab, newline, carriage return,
+ * and everything from the space character up
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Escape text for use in XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return [...text].filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a test report as JUnit XML. Failure screenshots are listed as
+ * `[[ATTACHMENT|path]]` lines, which CI servers such as Jenkins pick up.
+ */
+export function formatJUnitReport(report: TestReport): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="pw-electron" tests="${report.tests.length}" failures="${report.failed}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(report.appPath)}" tests="${report.tests.length}" failures="${report.failed}" errors="0" skipped="0" timestamp="${report.startedAt}" time="${seconds(report.durationMs)}">`,
+  ];
+
+  for (const test of report.tests) {
+    lines.push(`    <testcase name="${escapeXml(test.name)}" classname="${escapeXml(test.name)}" time="${seconds(test.durationMs)}">`);
+
+    const lastFailure = [...test.attempts].reverse().find(attempt => attempt.status === 'failed');
+    if (test.status === 'failed' && lastFailure?.error) {
+      const message = lastFailure.error.split('\n')[0];
+      lines.push(`      <failure message="${escapeXml(message)}">${escapeXml(lastFailure.error)}</failure>`);
+    }
+
+    const output = test.attempts.flatMap((attempt, index) => [
+      `Attempt ${index + 1}: ${attempt.status} in ${attempt.durationMs}ms`,
+      ...(attempt.status === 'failed' && test.status !== 'failed' && attempt.error ? [attempt.error] : []),
+      ...(attempt.screenshot ? [`[[ATTACHMENT|${attempt.screenshot}]]`] : []),
+    ]);
+    lines.push(`      <system-out>${escapeXml(output.join('\n'))}</system-out>`);
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Write a test report as JUnit XML
+ */
+export function writeJUnitReport(report: TestReport, file: string): void {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, formatJUnitReport(report));
+}
+
+/**
+ * Write a test report as JSON
+ */
+export function writeJsonReport(report: TestReport, file: string): void {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n');
+}
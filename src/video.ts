@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import type { SessionApp } from './attach.js';
+
+export interface VideoInfo {
+  /** Order in which the window opened during the session */
+  index: number;
+  url: string;
+  /** Whether the window is still open (its video is still being recorded) */
+  open: boolean;
+  path: string;
+}
+
+export interface SavedVideo {
+  index: number;
+  path: string;
+}
+
+const NOT_RECORDING = 'Video recording is not enabled. Start the session with "pw-electron open --record-video <dir>".';
+
+const recordedPages: Page[] = [];
+
+/**
+ * Keep track of every window that opens, so videos of windows that have
+ * since closed can still be saved
+ */
+export function trackVideos(app: SessionApp): void {
+  for (const page of app.windows()) {
+    recordedPages.push(page);
+  }
+  app.on('window', page => recordedPages.push(page));
+}
+
+/**
+ * Get the video of a window, or throw if recording isn't enabled
+ */
+function getVideo(page: Page) {
+  const video = page.video();
+  if (!video) {
+    throw new Error(NOT_RECORDING);
+  }
+  return video;
+}
+
+/**
+ * List the videos of every window opened during the session
+ */
+export async function listVideos(): Promise<VideoInfo[]> {
+  const videos: VideoInfo[] = [];
+  for (const [index, page] of recordedPages.entries()) {
+    const video = page.video();
+    if (video) {
+      videos.push({ index, url: page.url(), open: !page.isClosed(), path: await video.path() });
+    }
+  }
+  return videos;
+}
+
+/**
+ * Throw unless a window's video can be saved complete: its window has closed,
+ * or is to be closed first with `finalize`
+ */
+function checkFinalizable(page: Page, finalize?: boolean): void {
+  if (!finalize && !page.isClosed()) {
+    throw new Error(
+      `Window ${recordedPages.indexOf(page)} is still open, and its video is only written completely once it closes ` +
+      '(a copy of a recording in progress may not play or seek). ' +
+      'Pass --finalize to close the window and save the complete video.'
+    );
+  }
+}
+
+/**
+ * Save a window's video.
+ *
+ * Videos are only complete once their window closes, so an open window is
+ * closed first when `finalize` is set. Otherwise saving the video of an open
+ * window fails.
+ */
+export async function saveVideo(page: Page, output: string, options: { finalize?: boolean } = {}): Promise<SavedVideo> {
+  const video = getVideo(page);
+  checkFinalizable(page, options.finalize);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+
+  if (!page.isClosed()) {
+    await page.close();
+  }
+  await video.saveAs(output);
+  return { index: recordedPages.indexOf(page), path: output };
+}
+
+/**
+ * Save the video of every window opened during the session into a directory,
+ * one `window-<index>.webm` file per window
+ */
+export async function saveAllVideos(outputDir: string, options: { finalize?: boolean } = {}): Promise<SavedVideo[]> {
+  const pages = recordedPages.filter(page => page.video());
+  if (pages.length === 0) {
+    throw new Error(NOT_RECORDING);
+  }
+
+  // Check every window first, so nothing is closed or saved when one can't be
+  pages.forEach(page => checkFinalizable(page, options.finalize));
+
+  const saved: SavedVideo[] = [];
+  for (const page of pages) {
+    const index = recordedPages.indexOf(page);
+    saved.push(await saveVideo(page, path.join(outputDir, `window-${index}.webm`), options));
+  }
+  return saved;
+}
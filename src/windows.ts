@@ -0,0 +1,145 @@
+import type { Page } from 'playwright';
+import { isLaunchedApp, SessionApp } from './attach.js';
+
+export interface WindowInfo {
+  index: number;
+  id: number | null;
+  title: string;
+  url: string;
+}
+
+/**
+ * Get the BrowserWindow id backing a page, or null if it has none (e.g. a closed window)
+ */
+async function getBrowserWindowId(app: SessionApp, page: Page): Promise<number | null> {
+  if (!isLaunchedApp(app)) {
+    return null;
+  }
+  try {
+    const handle = await app.browserWindow(page);
+    return await handle.evaluate((win: { id: number }) => win.id);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describe a single window
+ */
+export async function describeWindow(app: SessionApp, page: Page): Promise<WindowInfo> {
+  const [id, title] = await Promise.all([
+    getBrowserWindowId(app, page),
+    page.title().catch(() => ''),
+  ]);
+  return { index: app.windows().indexOf(page), id, title, url: page.url() };
+}
+
+/**
+ * List all open windows with their index, BrowserWindow id, title and URL
+ */
+export async function listWindows(app: SessionApp): Promise<WindowInfo[]> {
+  return Promise.all(app.windows().map(page => describeWindow(app, page)));
+}
+
+/**
+ * Build a predicate for a window selector.
+ *
+ * A selector is either a window index (e.g. "1") or a regular expression
+ * that is matched against the window title and URL.
+ */
+function createWindowMatcher(selector: string): (page: Page, index: number) => Promise<boolean> {
+  if (/^\d+$/.test(selector)) {
+    const wanted = parseInt(selector, 10);
+    return async (_page, index) => index === wanted;
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(selector);
+  } catch {
+    throw new Error(`Invalid window selector "${selector}": not an index or a valid regular expression`);
+  }
+
+  return async (page) => {
+    if (pattern.test(page.url())) {
+      return true;
+    }
+    const title = await page.title().catch(() => '');
+    return pattern.test(title);
+  };
+}
+
+/**
+ * Resolve a window selector to a page.
+ *
+ * Without a selector, the fallback window is used while it is still open,
+ * otherwise the first open window.
+ */
+export async function resolveWindow(
+  app: SessionApp,
+  selector?: string,
+  fallback?: Page | null
+): Promise<Page> {
+  const windows = app.windows();
+
+  if (selector === undefined || selector === '') {
+    if (fallback && !fallback.isClosed()) {
+      return fallback;
+    }
+    if (windows.length === 0) {
+      throw new Error('No windows are open');
+    }
+    return windows[0];
+  }
+
+  const matches = createWindowMatcher(selector);
+  for (let index = 0; index < windows.length; index++) {
+    if (await matches(windows[index], index)) {
+      return windows[index];
+    }
+  }
+
+  throw new Error(
+    `No window matches "${selector}" (${windows.length} window${windows.length === 1 ? '' : 's'} open). ` +
+    'Use "pw-electron windows" to list them.'
+  );
+}
+
+/**
+ * Wait until a new window opens that matches the given selector.
+ *
+ * Only windows opened after this is called are considered. An index
+ * selector refers to the window's position in the window list once open.
+ */
+export async function waitForMatchingWindow(
+  app: SessionApp,
+  options: { match?: string; timeout?: number } = {}
+): Promise<Page> {
+  const { match, timeout = 30000 } = options;
+  const matches = match ? createWindowMatcher(match) : async () => true;
+
+  return new Promise<Page>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      app.off('window', onWindow);
+      reject(new Error(
+        `Timed out after ${timeout}ms waiting for a new window` +
+        (match ? ` matching "${match}"` : '')
+      ));
+    }, timeout);
+
+    async function onWindow(page: Page): Promise<void> {
+      try {
+        await page.waitForLoadState('domcontentloaded');
+        if (await matches(page, app.windows().indexOf(page))) {
+          clearTimeout(timer);
+          app.off('window', onWindow);
+          resolve(page);
+        }
+      } catch {
+        // Window closed before it could be inspected, keep waiting
+      }
+    }
+
+    app.on('window', onWindow);
+  });
+}
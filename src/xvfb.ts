@@ -0,0 +1,118 @@
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Readable } from 'stream';
+
+export interface XvfbOptions {
+  /** Screen size as WIDTHxHEIGHT or WIDTHxHEIGHTxDEPTH (default 1280x720x24) */
+  screenSize?: string;
+  /** How long to wait for Xvfb to start (default 10000ms) */
+  timeout?: number;
+}
+
+export interface XvfbDisplay {
+  /** Value for DISPLAY, e.g. ":99" */
+  display: string;
+  process: ChildProcess;
+}
+
+export const DEFAULT_SCREEN_SIZE = '1280x720x24';
+
+/**
+ * Check a screen size such as "1920x1080" or "1920x1080x24" and add the
+ * default depth when it is missing
+ */
+export function parseScreenSize(size: string): string {
+  const match = /^(\d+)x(\d+)(?:x(\d+))?$/.exec(size.trim());
+  if (!match) {
+    throw new Error(`Invalid screen size "${size}". Use WIDTHxHEIGHT or WIDTHxHEIGHTxDEPTH, e.g. 1920x1080x24`);
+  }
+  return `${match[1]}x${match[2]}x${match[3] ?? '24'}`;
+}
+
+/**
+ * Whether the app needs a virtual display: on Linux, when neither an X11 nor
+ * a Wayland display is available
+ */
+export function needsVirtualDisplay(env: NodeJS.ProcessEnv = process.env): boolean {
+  return process.platform === 'linux' && !env.DISPLAY && !env.WAYLAND_DISPLAY;
+}
+
+/**
+ * Find the Xvfb binary on the PATH
+ */
+export function findXvfb(): string | undefined {
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+    const candidate = path.join(dir, 'Xvfb');
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Start a private Xvfb server on a free display number.
+ *
+ * Xvfb picks the display itself (-displayfd), so several sessions can start
+ * side by side without racing for a number. The caller owns the process and
+ * must stop it with `stopXvfb`.
+ */
+export async function startXvfb(options: XvfbOptions = {}): Promise<XvfbDisplay> {
+  const xvfb = findXvfb();
+  if (!xvfb) {
+    throw new Error(
+      'Xvfb is not installed, so there is no virtual display to run the app on. ' +
+      'Install it (e.g. "apt-get install xvfb" or "dnf install xorg-x11-server-Xvfb"), ' +
+      'or run with a DISPLAY set.'
+    );
+  }
+
+  const screenSize = parseScreenSize(options.screenSize ?? DEFAULT_SCREEN_SIZE);
+  const child = spawn(xvfb, ['-displayfd', '3', '-screen', '0', screenSize, '-nolisten', 'tcp'], {
+    stdio: ['ignore', 'ignore', 'pipe', 'pipe'],
+  });
+
+  let stderr = '';
+  child.stderr?.on('data', chunk => stderr += chunk);
+
+  const display = await new Promise<string>((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Xvfb did not start within ${options.timeout ?? 10000}ms\n${stderr.trim()}`));
+    }, options.timeout ?? 10000);
+
+    (child.stdio[3] as Readable).on('data', chunk => {
+      output += chunk;
+      if (output.includes('\n')) {
+        clearTimeout(timer);
+        resolve(`:${output.trim()}`);
+      }
+    });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer);
+      reject(new Error(`Xvfb exited during startup (${signal ?? `code ${code}`})\n${stderr.trim()}`));
+    });
+  });
+
+  // Later Xvfb output isn't needed; stop buffering it
+  child.stderr?.removeAllListeners('data').resume();
+  return { display, process: child };
+}
+
+/**
+ * Stop an Xvfb server started with `startXvfb`
+ */
+export function stopXvfb(xvfb: XvfbDisplay): void {
+  if (xvfb.process.exitCode === null && xvfb.process.signalCode === null) {
+    xvfb.process.kill();
+  }
+}
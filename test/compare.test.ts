@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRegion, parseCompareOptions } from '../src/compare.js';
+
+describe('parseRegion', () => {
+  it('parses x,y,width,height', () => {
+    assert.deepEqual(parseRegion('0,10,800,600.5', '--clip'), { x: 0, y: 10, width: 800, height: 600.5 });
+  });
+
+  it('rejects incomplete or non-numeric regions, naming the flag', () => {
+    assert.throws(() => parseRegion('0,0,800', '--clip'), /Invalid --clip "0,0,800"/);
+    assert.throws(() => parseRegion('a,b,c,d', '--ignore-region'), /Invalid --ignore-region/);
+  });
+});
+
+describe('parseCompareOptions', () => {
+  it('parses every option', () => {
+    assert.deepEqual(
+      parseCompareOptions({ threshold: '0.2', maxDiffPixels: '50', maxDiffRatio: '0.01', ignoreRegion: ['0,0,10,10'] }),
+      { threshold: 0.2, maxDiffPixels: 50, maxDiffRatio: 0.01, ignoreRegions: [{ x: 0, y: 0, width: 10, height: 10 }] }
+    );
+  });
+
+  it('leaves options that were not given undefined', () => {
+    assert.deepEqual(parseCompareOptions({}), {
+      threshold: undefined,
+      maxDiffPixels: undefined,
+      maxDiffRatio: undefined,
+      ignoreRegions: [],
+    });
+  });
+
+  it('requires a threshold from 0 to 1', () => {
+    assert.deepEqual(parseCompareOptions({ threshold: '0' }).threshold, 0);
+    assert.deepEqual(parseCompareOptions({ threshold: '1' }).threshold, 1);
+    for (const threshold of ['1.5', '-0.1', 'abc', '', 'NaN']) {
+      assert.throws(() => parseCompareOptions({ threshold }), /Invalid --threshold/);
+    }
+  });
+
+  it('requires a non-negative whole number of pixels', () => {
+    for (const maxDiffPixels of ['-1', '1.5', 'Infinity', 'ten']) {
+      assert.throws(() => parseCompareOptions({ maxDiffPixels }), /Invalid --max-diff-pixels/);
+    }
+  });
+
+  it('requires a finite ratio from 0 to 1', () => {
+    for (const maxDiffRatio of ['2', '-0.5', 'Infinity']) {
+      assert.throws(() => parseCompareOptions({ maxDiffRatio }), /Invalid --max-diff-ratio/);
+    }
+  });
+});
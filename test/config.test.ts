@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { resolveProfile, parseEnvPairs, PwElectronConfig } from '../src/config.js';
+
+const CONFIG_FILE = path.resolve('/project/pw-electron.config.json');
+
+const config: PwElectronConfig = {
+  path: './app',
+  args: ['--base'],
+  env: { SHARED: 'base', BASE_ONLY: '1' },
+  timeout: 10000,
+  defaultProfile: 'dev',
+  profiles: {
+    dev: { env: { SHARED: 'dev' }, cwd: 'work' },
+    prod: { path: '/opt/app', args: ['--prod'], userDataDir: '../profiles/prod' },
+  },
+};
+
+describe('resolveProfile', () => {
+  it('uses the default profile when none is named', () => {
+    const profile = resolveProfile(config, CONFIG_FILE);
+    assert.equal(profile.name, 'dev');
+    assert.equal(profile.configFile, CONFIG_FILE);
+    assert.equal(profile.timeout, 10000);
+    assert.deepEqual(profile.args, ['--base']);
+  });
+
+  it('lets a profile override top-level settings', () => {
+    const profile = resolveProfile(config, CONFIG_FILE, 'prod');
+    assert.equal(profile.name, 'prod');
+    assert.equal(profile.path, path.resolve('/opt/app'));
+    assert.deepEqual(profile.args, ['--prod']);
+    assert.equal(profile.timeout, 10000);
+  });
+
+  it('merges env key by key', () => {
+    assert.deepEqual(resolveProfile(config, CONFIG_FILE, 'dev').env, { SHARED: 'dev', BASE_ONLY: '1' });
+    assert.deepEqual(resolveProfile(config, CONFIG_FILE, 'prod').env, { SHARED: 'base', BASE_ONLY: '1' });
+  });
+
+  it('resolves relative paths against the config file directory', () => {
+    const dir = path.dirname(CONFIG_FILE);
+    assert.equal(resolveProfile(config, CONFIG_FILE, 'dev').path, path.join(dir, 'app'));
+    assert.equal(resolveProfile(config, CONFIG_FILE, 'dev').cwd, path.join(dir, 'work'));
+    assert.equal(resolveProfile(config, CONFIG_FILE, 'prod').userDataDir, path.resolve(dir, '../profiles/prod'));
+  });
+
+  it('applies only the top-level settings without profiles', () => {
+    const profile = resolveProfile({ path: 'app', env: { A: '1' } }, CONFIG_FILE);
+    assert.equal(profile.name, undefined);
+    assert.equal(profile.path, path.join(path.dirname(CONFIG_FILE), 'app'));
+    assert.deepEqual(profile.env, { A: '1' });
+  });
+
+  it('names the available profiles when one is missing', () => {
+    assert.throws(() => resolveProfile(config, CONFIG_FILE, 'staging'), /No profile "staging" in .*\. Available: dev, prod/);
+    assert.throws(() => resolveProfile({}, CONFIG_FILE, 'dev'), /No profile "dev" in \S+$/);
+  });
+
+  it('does not treat inherited object properties as profiles', () => {
+    assert.throws(() => resolveProfile(config, CONFIG_FILE, 'toString'), /No profile "toString"/);
+  });
+});
+
+describe('parseEnvPairs', () => {
+  const cases: [string[], Record<string, string>][] = [
+    [[], {}],
+    [['A=1', 'B=two'], { A: '1', B: 'two' }],
+    [['URL=http://host/?a=1&b=2'], { URL: 'http://host/?a=1&b=2' }],
+    [['EMPTY='], { EMPTY: '' }],
+    [['A=1', 'A=2'], { A: '2' }],
+  ];
+  for (const [pairs, expected] of cases) {
+    it(`parses ${JSON.stringify(pairs)}`, () => {
+      assert.deepEqual(parseEnvPairs(pairs), expected);
+    });
+  }
+
+  for (const pair of ['NOVALUE', '=value', '']) {
+    it(`rejects ${JSON.stringify(pair)}`, () => {
+      assert.throws(() => parseEnvPairs([pair]), /expected KEY=VALUE/);
+    });
+  }
+});
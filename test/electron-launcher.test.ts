@@ -0,0 +1,174 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveElectronApp } from '../src/electron-launcher.js';
+
+// Executables are told apart by their mode bits, which Windows doesn't have
+describe('resolveElectronApp', { skip: process.platform === 'win32' }, () => {
+  let dir: string;
+  let electron: string;
+
+  const write = (file: string, content = '', mode = 0o644) => {
+    const fullPath = path.join(dir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    fs.chmodSync(fullPath, mode);
+    return fullPath;
+  };
+  const executable = (file: string, size = 1) => write(file, 'x'.repeat(size), 0o755);
+
+  /** Run `fn` with only `dirs` on the PATH */
+  const withPath = <T>(dirs: string[], fn: () => T): T => {
+    const saved = process.env.PATH;
+    process.env.PATH = dirs.join(path.delimiter);
+    try {
+      return fn();
+    } finally {
+      process.env.PATH = saved;
+    }
+  };
+
+  before(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'pw-electron-launcher-')));
+    const distBinary = process.platform === 'darwin'
+      ? 'node_modules/electron/dist/Electron.app/Contents/MacOS/Electron'
+      : 'node_modules/electron/dist/electron';
+    electron = executable(path.join('workspace', distBinary));
+
+    write('workspace/project/package.json', JSON.stringify({ main: 'src/main.js' }));
+    write('workspace/project/src/main.js');
+    write('workspace/default-main/package.json', '{}');
+    write('workspace/default-main/index.js');
+    write('workspace/unbuilt/package.json', JSON.stringify({ main: 'dist/main.js' }));
+    write('workspace/main.mjs');
+    write('workspace/app.asar');
+    write('workspace/extracted/resources/app.asar');
+
+    executable('workspace/build/linux-unpacked/my-app', 1000);
+    executable('workspace/build/linux-unpacked/chrome-sandbox', 2000);
+    executable('workspace/build/linux-unpacked/libffmpeg.so', 3000);
+    executable('workspace/build/linux-unpacked/helper', 10);
+    write('workspace/build/linux-unpacked/resources/app.asar');
+    write('workspace/build/mac/My App.app/Contents/Info.plist',
+      '<dict>\n  <key>CFBundleExecutable</key>\n  <string>My App</string>\n</dict>');
+    executable('workspace/build/mac/My App.app/Contents/MacOS/My App');
+    executable('workspace/build/mac/My App.app/Contents/MacOS/other');
+
+    executable('workspace/twice/linux-a/app', 10);
+    write('workspace/twice/linux-a/resources/app.asar');
+    executable('workspace/twice/linux-b/app', 10);
+    write('workspace/twice/linux-b/resources/app/package.json', '{}');
+
+    write('bare/package.json', JSON.stringify({ main: 'main.js' }));
+    write('bare/main.js');
+    executable('bin/electron');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs a project directory with the electron package of a parent directory', () => {
+    const resolution = resolveElectronApp(path.join(dir, 'workspace/project'));
+    assert.equal(resolution.kind, 'project');
+    assert.equal(resolution.executable, electron);
+    assert.deepEqual(resolution.appArgs, [path.join(dir, 'workspace/project')]);
+    assert.ok(resolution.checks.includes('package.json "main" is src/main.js'), resolution.checks.join('\n'));
+  });
+
+  it('accepts a project without "main" that has an index.js', () => {
+    const resolution = resolveElectronApp(path.join(dir, 'workspace/default-main'));
+    assert.equal(resolution.kind, 'project');
+    assert.ok(resolution.checks.includes('package.json "main" is index.js (the default)'), resolution.checks.join('\n'));
+  });
+
+  it('rejects a project whose "main" does not exist', () => {
+    assert.throws(
+      () => resolveElectronApp(path.join(dir, 'workspace/unbuilt')),
+      /has "main": "dist\/main.js", but .* doesn't exist/
+    );
+  });
+
+  it('runs a main script and an app.asar with Electron', () => {
+    const script = resolveElectronApp(path.join(dir, 'workspace/main.mjs'));
+    assert.equal(script.kind, 'script');
+    assert.equal(script.executable, electron);
+    assert.deepEqual(script.appArgs, [path.join(dir, 'workspace/main.mjs')]);
+
+    const asar = resolveElectronApp(path.join(dir, 'workspace/app.asar'));
+    assert.equal(asar.kind, 'asar');
+    assert.deepEqual(asar.appArgs, [path.join(dir, 'workspace/app.asar')]);
+  });
+
+  it('finds resources/app.asar in a directory without an app executable', () => {
+    const resolution = resolveElectronApp(path.join(dir, 'workspace/extracted'));
+    assert.equal(resolution.kind, 'asar');
+    assert.deepEqual(resolution.appArgs, [path.join(dir, 'workspace/extracted/resources/app.asar')]);
+  });
+
+  it('picks the largest executable of a packaged app that is not a helper', () => {
+    const resolution = resolveElectronApp(path.join(dir, 'workspace/build/linux-unpacked'));
+    assert.equal(resolution.kind, 'packaged');
+    assert.equal(resolution.executable, path.join(dir, 'workspace/build/linux-unpacked/my-app'));
+    assert.deepEqual(resolution.appArgs, []);
+  });
+
+  it('picks the CFBundleExecutable of a macOS app bundle', () => {
+    const resolution = resolveElectronApp(path.join(dir, 'workspace/build/mac/My App.app'));
+    assert.equal(resolution.kind, 'packaged');
+    assert.equal(resolution.executable, path.join(dir, 'workspace/build/mac/My App.app/Contents/MacOS/My App'));
+  });
+
+  it('finds the packaged app built for this platform in a build output directory', () => {
+    const resolution = resolveElectronApp(path.join(dir, 'workspace/build'));
+    const expected = process.platform === 'darwin'
+      ? 'workspace/build/mac/My App.app/Contents/MacOS/My App'
+      : 'workspace/build/linux-unpacked/my-app';
+    assert.equal(resolution.kind, 'packaged');
+    assert.equal(resolution.executable, path.join(dir, expected));
+  });
+
+  it('asks which one to use when a build output directory has several packaged apps', () => {
+    assert.throws(
+      () => resolveElectronApp(path.join(dir, 'workspace/twice')),
+      /Found several packaged apps .*\n.*linux-a\n.*linux-b/
+    );
+  });
+
+  it('runs a project with the --electron binary', () => {
+    const override = path.join(dir, 'bin/electron');
+    const resolution = resolveElectronApp(path.join(dir, 'workspace/project'), override);
+    assert.equal(resolution.kind, 'project');
+    assert.equal(resolution.executable, override);
+  });
+
+  it('rejects an --electron binary that is not executable, or given for an executable', () => {
+    assert.throws(
+      () => resolveElectronApp(path.join(dir, 'workspace/project'), path.join(dir, 'bare/main.js')),
+      /is not an executable file/
+    );
+    assert.throws(
+      () => resolveElectronApp(path.join(dir, 'workspace/build/linux-unpacked/my-app'), path.join(dir, 'bin/electron')),
+      /--electron only applies to projects/
+    );
+  });
+
+  it('falls back to electron on the PATH', () => {
+    const resolution = withPath([path.join(dir, 'bin')], () => resolveElectronApp(path.join(dir, 'bare')));
+    assert.equal(resolution.executable, path.join(dir, 'bin/electron'));
+    assert.ok(resolution.checks.includes(`Found electron on the PATH: ${path.join(dir, 'bin/electron')}`));
+  });
+
+  it('lists what it checked when there is no Electron to run a project with', () => {
+    assert.throws(
+      () => withPath([], () => resolveElectronApp(path.join(dir, 'bare'))),
+      /Could not find an Electron binary[\s\S]*Checked:[\s\S]*No electron on the PATH/
+    );
+  });
+
+  it('rejects a path that does not exist', () => {
+    assert.throws(() => resolveElectronApp(path.join(dir, 'missing')), /does not exist/);
+  });
+});
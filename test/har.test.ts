@@ -0,0 +1,165 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createRequire } from 'module';
+import type { BrowserContext, Request } from 'playwright';
+import { startHarRecording, stopHarRecording, moveHarRecording, isRecordingHar } from '../src/har.js';
+
+type Headers = { name: string; value: string }[];
+
+interface HarLookup {
+  action: 'fulfill' | 'noentry' | 'redirect' | 'error';
+  status?: number;
+  body?: Buffer;
+}
+
+/**
+ * Playwright's HAR replay backend, which routeFromHAR uses to answer
+ * requests. It isn't part of the package's exports, so it is loaded by path.
+ */
+function loadHarBackend(): new (har: unknown, baseDir: string, zipFile: null) => {
+  lookup(url: string, method: string, headers: Headers, postData: Buffer | undefined, isNavigationRequest: boolean): Promise<HarLookup>;
+} {
+  const requirePlaywright = createRequire(createRequire(import.meta.url).resolve('playwright/package.json'));
+  const coreDir = path.dirname(requirePlaywright.resolve('playwright-core/package.json'));
+  return requirePlaywright(path.join(coreDir, 'lib/server/harBackend.js')).HarBackend;
+}
+
+/**
+ * A finished request with its response, as far as the HAR recorder reads it
+ */
+function fakeRequest(options: {
+  url: string;
+  method?: string;
+  headers?: Headers;
+  postData?: Buffer;
+  status?: number;
+  responseHeaders?: Headers;
+  body?: Buffer;
+  protocol?: string;
+}): Request {
+  const response = {
+    headersArray: async () => options.responseHeaders ?? [],
+    body: async () => options.body ?? Buffer.alloc(0),
+    status: () => options.status ?? 200,
+    statusText: () => 'OK',
+  };
+  return {
+    url: () => options.url,
+    method: () => options.method ?? 'GET',
+    headersArray: async () => options.headers ?? [],
+    postDataBuffer: () => options.postData ?? null,
+    response: async () => response,
+    timing: () => ({ startTime: 0, requestStart: 1, responseStart: 2, responseEnd: 3 }),
+    frame: () => {
+      if (options.protocol === undefined) {
+        throw new Error('No frame');
+      }
+      return { evaluate: async () => options.protocol };
+    },
+  } as unknown as Request;
+}
+
+describe('HAR recording', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pw-electron-har-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const record = async (requests: Request[], file: string) => {
+    const context = new EventEmitter();
+    startHarRecording(context as unknown as BrowserContext);
+    for (const request of requests) {
+      context.emit('requestfinished', request);
+    }
+    const result = await stopHarRecording(path.join(dir, file));
+    return { ...result, har: JSON.parse(fs.readFileSync(result.path, 'utf-8')) };
+  };
+
+  it('records entries that routeFromHAR answers with the recorded response', async () => {
+    const upload = Buffer.from([0x00, 0xff, 0x10, 0x80]);
+    const { entries, har, path: harPath } = await record([
+      fakeRequest({
+        url: 'https://api.example.com/users?page=2',
+        responseHeaders: [{ name: 'content-type', value: 'application/json' }],
+        body: Buffer.from('[{"name":"Ada"}]'),
+        protocol: 'h2',
+      }),
+      fakeRequest({
+        url: 'https://api.example.com/upload',
+        method: 'POST',
+        headers: [{ name: 'content-type', value: 'application/octet-stream' }],
+        postData: upload,
+        status: 201,
+        body: Buffer.from('stored'),
+      }),
+      fakeRequest({ url: 'file:///app/index.html' }),
+    ], 'recorded.har');
+
+    assert.equal(entries, 2);
+    assert.equal(har.log.entries[0].response.httpVersion, 'HTTP/2.0');
+    assert.equal(har.log.entries[1].response.httpVersion, 'HTTP/1.1');
+    assert.deepEqual(har.log.entries[0].request.queryString, [{ name: 'page', value: '2' }]);
+    assert.deepEqual(har.log.entries[1].request.postData, {
+      mimeType: 'application/octet-stream',
+      text: upload.toString('base64'),
+      encoding: 'base64',
+    });
+
+    const HarBackend = loadHarBackend();
+    const backend = new HarBackend(har, path.dirname(harPath), null);
+    const users = await backend.lookup('https://api.example.com/users?page=2', 'GET', [], undefined, false);
+    assert.equal(users.action, 'fulfill');
+    assert.equal(users.body?.toString(), '[{"name":"Ada"}]');
+
+    const stored = await backend.lookup('https://api.example.com/upload', 'POST', [], upload, false);
+    assert.equal(stored.action, 'fulfill');
+    assert.equal(stored.status, 201);
+    const other = await backend.lookup('https://api.example.com/upload', 'POST', [], Buffer.from('other'), false);
+    assert.equal(other.action, 'noentry');
+  });
+
+  it('keeps recording when the file cannot be written', async () => {
+    const context = new EventEmitter();
+    startHarRecording(context as unknown as BrowserContext);
+    context.emit('requestfinished', fakeRequest({ url: 'https://example.com/a' }));
+
+    const blocker = path.join(dir, 'blocker');
+    fs.writeFileSync(blocker, '');
+    await assert.rejects(stopHarRecording(path.join(blocker, 'out.har')));
+    assert.equal(isRecordingHar(), true);
+
+    const { entries } = await stopHarRecording(path.join(dir, 'retried.har'));
+    assert.equal(entries, 1);
+    assert.equal(isRecordingHar(), false);
+  });
+
+  it('carries a recording over to the relaunched app', async () => {
+    const first = new EventEmitter();
+    const second = new EventEmitter();
+    startHarRecording(first as unknown as BrowserContext);
+    first.emit('requestfinished', fakeRequest({ url: 'https://example.com/before' }));
+    moveHarRecording(second as unknown as BrowserContext);
+    first.emit('requestfinished', fakeRequest({ url: 'https://example.com/old-app' }));
+    second.emit('requestfinished', fakeRequest({ url: 'https://example.com/after' }));
+
+    assert.throws(() => startHarRecording(new EventEmitter() as unknown as BrowserContext), /already running/);
+
+    const result = await stopHarRecording(path.join(dir, 'moved.har'));
+    const urls = JSON.parse(fs.readFileSync(result.path, 'utf-8')).log.entries.map((entry: { request: { url: string } }) => entry.request.url);
+    assert.deepEqual(urls, ['https://example.com/before', 'https://example.com/after']);
+    assert.equal(second.listenerCount('requestfinished'), 0);
+  });
+
+  it('refuses to stop when nothing is recording', async () => {
+    await assert.rejects(stopHarRecording(path.join(dir, 'none.har')), /No HAR recording is running/);
+  });
+});
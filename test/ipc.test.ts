@@ -0,0 +1,151 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import type { ElectronApplication } from 'playwright';
+import { installIpcCapture, queryIpc, invokeIpcHandler, IpcEntry } from '../src/ipc.js';
+
+type IpcEvent = { sender: { id: number }; _reply?: (value: unknown) => void; _throw?: (error: unknown) => void };
+type Handler = (event: IpcEvent, ...args: unknown[]) => unknown;
+
+/**
+ * The parts of the `electron` module IPC capture patches: ipcMain keeps its
+ * `handle` handlers in `_invokeHandlers`, and so does each webContents' `ipc`
+ */
+function fakeElectron() {
+  const ipcMain = Object.assign(new EventEmitter(), { _invokeHandlers: new Map<string, Handler>() });
+  const sent: unknown[][] = [];
+  const contents = {
+    id: 7,
+    send: (...args: unknown[]) => {
+      sent.push(args);
+    },
+    ipc: { _invokeHandlers: new Map<string, Handler>() },
+    getProcessId: () => 1234,
+  };
+  class BrowserWindow {
+    static getAllWindows = () => [window];
+    id = 1;
+    webContents = contents;
+  }
+  const window = new BrowserWindow();
+  return {
+    app: new EventEmitter(),
+    ipcMain,
+    BrowserWindow,
+    webContents: { getAllWebContents: () => [contents] },
+    contents,
+    sent,
+  };
+}
+
+/**
+ * Register a handler the way `handle` does: Electron keeps a wrapper that
+ * answers through the event's _reply/_throw
+ */
+function handle(handlers: Map<string, Handler>, channel: string, fn: (...args: unknown[]) => unknown): void {
+  handlers.set(channel, async (event, ...args) => {
+    try {
+      event._reply?.(await fn(...args));
+    } catch (error) {
+      event._throw?.(error);
+    }
+  });
+}
+
+/**
+ * Invoke a channel's handler the way a renderer's ipcRenderer.invoke does
+ */
+function invoke(handlers: Map<string, Handler>, channel: string, ...args: unknown[]): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    handlers.get(channel)!({ sender: { id: 7 }, _reply: resolve, _throw: reject }, ...args);
+  });
+}
+
+describe('IPC capture', () => {
+  let electron: ReturnType<typeof fakeElectron>;
+  let app: ElectronApplication;
+
+  // Entries without the parts that change from run to run
+  const entries = async () => (await queryIpc(app)).map(({ direction, kind, channel, webContentsId, args, error }) => (
+    { direction, kind, channel, webContentsId, args, ...(error ? { error } : {}) }
+  ));
+
+  beforeEach(async () => {
+    electron = fakeElectron();
+    handle(electron.ipcMain._invokeHandlers, 'get-user', id => ({ id, name: 'Ada' }));
+    // Runs the main-process functions right here, against the fake module
+    app = {
+      evaluate: async (fn: (electron: unknown, arg: unknown) => unknown, arg: unknown) => fn(electron, arg),
+    } as unknown as ElectronApplication;
+    await installIpcCapture(app);
+  });
+
+  afterEach(() => {
+    delete (globalThis as { __pwElectronIpc?: unknown }).__pwElectronIpc;
+  });
+
+  it('records messages from renderers and to them', async () => {
+    electron.ipcMain.emit('save', { sender: { id: 7 } }, { title: 'Draft' });
+    electron.ipcMain.emit('not-ipc', 'no event');
+    electron.contents.send('saved', 42);
+
+    assert.deepEqual(await entries(), [
+      { direction: 'renderer-to-main', kind: 'send', channel: 'save', webContentsId: 7, args: '[{"title":"Draft"}]' },
+      { direction: 'main-to-renderer', kind: 'send', channel: 'saved', webContentsId: 7, args: '[42]' },
+    ]);
+    assert.deepEqual(electron.sent, [['saved', 42]]);
+  });
+
+  it('records invokes and replies of handlers registered before and after capture started', async () => {
+    handle(electron.contents.ipc._invokeHandlers, 'fail', () => {
+      throw new Error('nope');
+    });
+
+    assert.deepEqual(await invoke(electron.ipcMain._invokeHandlers, 'get-user', 5), { id: 5, name: 'Ada' });
+    await assert.rejects(invoke(electron.contents.ipc._invokeHandlers, 'fail'), /nope/);
+
+    const recorded = await queryIpc(app);
+    assert.equal(typeof recorded[1].durationMs, 'number');
+    assert.deepEqual(await entries(), [
+      { direction: 'renderer-to-main', kind: 'invoke', channel: 'get-user', webContentsId: 7, args: '[5]' },
+      { direction: 'main-to-renderer', kind: 'reply', channel: 'get-user', webContentsId: 7, args: '{"id":5,"name":"Ada"}' },
+      { direction: 'renderer-to-main', kind: 'invoke', channel: 'fail', webContentsId: 7, args: '[]' },
+      { direction: 'main-to-renderer', kind: 'reply', channel: 'fail', webContentsId: 7, args: 'undefined', error: 'Error: nope' },
+    ]);
+  });
+
+  it('truncates long arguments and describes windows and bigints', async () => {
+    electron.ipcMain.emit('big', { sender: { id: 7 } }, 'x'.repeat(1000));
+    electron.ipcMain.emit('window', { sender: { id: 7 } }, { id: 2, webContents: {} }, 10n);
+
+    const [big, window] = await queryIpc(app);
+    assert.equal(big.args.length, 501);
+    assert.ok(big.args.startsWith('["xxx'));
+    assert.ok(big.args.endsWith('…'));
+    assert.equal(window.args, '["[BrowserWindow 2]","10n"]');
+  });
+
+  it('filters entries by channel and sequence number', async () => {
+    for (const channel of ['a:one', 'b:two', 'a:three']) {
+      electron.ipcMain.emit(channel, { sender: { id: 7 } });
+    }
+    const all = await queryIpc(app);
+    const channels = (list: IpcEntry[]) => list.map(entry => entry.channel);
+    assert.deepEqual(channels(await queryIpc(app, { channel: '^a:' })), ['a:one', 'a:three']);
+    assert.deepEqual(channels(await queryIpc(app, { after: all[0].seq })), ['b:two', 'a:three']);
+  });
+
+  it('invokes a handler directly, preferring the window\'s own handler', async (t) => {
+    // The result encoder is rebuilt from its source, which tsx sprinkles with
+    // calls to its __name helper; in the real main process it is compiled by tsc
+    const g = globalThis as { __name?: unknown };
+    g.__name ??= (fn: unknown) => fn;
+    t.after(() => delete g.__name);
+
+    assert.deepEqual(await invokeIpcHandler(app, 'get-user', [9]), { id: 9, name: 'Ada' });
+
+    handle(electron.contents.ipc._invokeHandlers, 'get-user', () => 'from the window');
+    assert.equal(await invokeIpcHandler(app, 'get-user'), 'from the window');
+    await assert.rejects(invokeIpcHandler(app, 'missing'), /No ipcMain.handle or webContents.ipc.handle handler for channel "missing"/);
+  });
+});
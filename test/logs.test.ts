@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSince, isLogLevel } from '../src/logs.js';
+
+describe('parseSince', () => {
+  const now = Date.parse('2024-05-01T12:00:00.000Z');
+  const valid: [string, string][] = [
+    ['250ms', '2024-05-01T11:59:59.750Z'],
+    ['30s', '2024-05-01T11:59:30.000Z'],
+    ['5m', '2024-05-01T11:55:00.000Z'],
+    ['2h', '2024-05-01T10:00:00.000Z'],
+    ['1d', '2024-04-30T12:00:00.000Z'],
+    ['0s', '2024-05-01T12:00:00.000Z'],
+    ['1714564800000', '2024-05-01T12:00:00.000Z'],
+    ['2024-05-01T10:30:00Z', '2024-05-01T10:30:00.000Z'],
+    ['2024-05-01T10:30:00+02:00', '2024-05-01T08:30:00.000Z'],
+  ];
+  for (const [value, expected] of valid) {
+    it(`parses ${JSON.stringify(value)}`, () => {
+      assert.equal(parseSince(value, now), expected);
+    });
+  }
+
+  for (const value of ['', 'yesterday', '5 minutes', '-5m', '5w', '1.5h']) {
+    it(`rejects ${JSON.stringify(value)}`, () => {
+      assert.throws(() => parseSince(value, now), /Invalid --since value/);
+    });
+  }
+});
+
+describe('isLogLevel', () => {
+  it('accepts the log levels only', () => {
+    assert.deepEqual(['debug', 'info', 'warning', 'error', 'warn', 'INFO', ''].map(isLogLevel), [
+      true, true, true, true, false, false, false,
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ElectronApplication } from 'playwright';
+import { installMenuTracking, getMenu, clickMenuItem } from '../src/menus.js';
+
+type ItemOptions = {
+  label?: string;
+  id?: string;
+  type?: string;
+  role?: string;
+  accelerator?: string;
+  enabled?: boolean;
+  checked?: boolean;
+  submenu?: ItemOptions[];
+};
+
+/**
+ * The parts of the `electron` module menus use. Menu and Tray are new classes
+ * for every test, since tracking patches their prototypes.
+ */
+function fakeElectron() {
+  const clicks: { path: string; args: unknown[] }[] = [];
+  const closed: Menu[] = [];
+
+  class Menu {
+    items: unknown[];
+    constructor(template: ItemOptions[], parent = '') {
+      this.items = template.map(options => {
+        const label = options.label ?? '';
+        const path = parent ? `${parent} > ${label}` : label;
+        return {
+          label,
+          id: options.id,
+          type: options.type ?? (options.submenu ? 'submenu' : 'normal'),
+          role: options.role,
+          accelerator: options.accelerator,
+          enabled: options.enabled ?? true,
+          visible: true,
+          checked: options.checked ?? false,
+          submenu: options.submenu ? new Menu(options.submenu, path) : null,
+          click: (...args: unknown[]) => clicks.push({ path, args }),
+        };
+      });
+    }
+    popup() {}
+    closePopup() {
+      closed.push(this);
+    }
+  }
+
+  class Tray {
+    menu: Menu | null = null;
+    setContextMenu(menu: Menu | null) {
+      this.menu = menu;
+    }
+    popUpContextMenu(menu?: Menu) {
+      return menu ?? this.menu;
+    }
+  }
+
+  const window = { id: 1, webContents: { id: 7 } };
+  let applicationMenu: Menu | null = null;
+  return {
+    Menu: Object.assign(Menu, { getApplicationMenu: () => applicationMenu }),
+    Tray,
+    BrowserWindow: { getFocusedWindow: () => null, getAllWindows: () => [window] },
+    setApplicationMenu: (menu: Menu | null) => {
+      applicationMenu = menu;
+    },
+    window,
+    clicks,
+    closed,
+  };
+}
+
+describe('menus', () => {
+  let electron: ReturnType<typeof fakeElectron>;
+  let app: ElectronApplication;
+
+  beforeEach(async () => {
+    electron = fakeElectron();
+    // Runs the main-process functions right here, against the fake module
+    app = {
+      evaluate: async (fn: (electron: unknown, arg: unknown) => unknown, arg: unknown) => fn(electron, arg),
+    } as unknown as ElectronApplication;
+    await installMenuTracking(app);
+  });
+
+  afterEach(() => {
+    delete (globalThis as { __pwElectronMenus?: unknown }).__pwElectronMenus;
+  });
+
+  it('describes the application menu, with checked states only for checkbox and radio items', async () => {
+    electron.setApplicationMenu(new electron.Menu([
+      {
+        label: '&View',
+        submenu: [
+          { label: 'Reload', role: 'reload', accelerator: 'CmdOrCtrl+R' },
+          { type: 'separator' },
+          { label: 'Show Sidebar', id: 'sidebar', type: 'checkbox', checked: true },
+        ],
+      },
+    ]));
+
+    assert.deepEqual(await getMenu(app), [
+      {
+        label: '&View', id: null, type: 'submenu', role: null, accelerator: null, enabled: true, visible: true,
+        submenu: [
+          { label: 'Reload', id: null, type: 'normal', role: 'reload', accelerator: 'CmdOrCtrl+R', enabled: true, visible: true },
+          { label: '', id: null, type: 'separator', role: null, accelerator: null, enabled: true, visible: true },
+          { label: 'Show Sidebar', id: 'sidebar', type: 'checkbox', role: null, accelerator: null, enabled: true, visible: true, checked: true },
+        ],
+      },
+    ]);
+  });
+
+  it('tracks the last context menu and the menu of each tray', async () => {
+    await assert.rejects(getMenu(app, { source: 'context' }), /No context menu has been shown/);
+    await assert.rejects(getMenu(app, { source: 'tray' }), /No menu has been set for tray 0/);
+    await assert.rejects(getMenu(app), /The app has no application menu/);
+
+    new electron.Menu([{ label: 'Copy' }]).popup();
+    new electron.Menu([{ label: 'Paste' }]).popup();
+    const first = new electron.Tray();
+    const second = new electron.Tray();
+    first.setContextMenu(new electron.Menu([{ label: 'Open' }]));
+    second.popUpContextMenu(new electron.Menu([{ label: 'Pause' }]));
+    first.setContextMenu(null);
+    first.setContextMenu(new electron.Menu([{ label: 'Quit' }]));
+
+    const labels = async (query: Parameters<typeof getMenu>[1]) => (await getMenu(app, query)).map(item => item.label);
+    assert.deepEqual(await labels({ source: 'context' }), ['Paste']);
+    assert.deepEqual(await labels({ source: 'tray' }), ['Quit']);
+    assert.deepEqual(await labels({ source: 'tray', tray: 1 }), ['Pause']);
+    await assert.rejects(getMenu(app, { source: 'tray', tray: 2 }), /No menu has been set for tray 2/);
+  });
+
+  it('finds items by label, ignoring case and mnemonics, or by id', async () => {
+    electron.setApplicationMenu(new electron.Menu([
+      { label: '&File', submenu: [{ label: 'Export', submenu: [{ label: 'PDF', id: 'export-pdf' }] }] },
+    ]));
+
+    assert.deepEqual(await clickMenuItem(app, ['file', 'EXPORT', 'pdf']), ['&File', 'Export', 'PDF']);
+    assert.deepEqual(await clickMenuItem(app, ['File', 'Export', 'export-pdf']), ['&File', 'Export', 'PDF']);
+    assert.deepEqual(electron.clicks, [
+      { path: '&File > Export > PDF', args: [{ triggeredByAccelerator: false }, electron.window, electron.window.webContents] },
+      { path: '&File > Export > PDF', args: [{ triggeredByAccelerator: false }, electron.window, electron.window.webContents] },
+    ]);
+  });
+
+  it('lists the available items when one is not found, and refuses submenus and disabled items', async () => {
+    electron.setApplicationMenu(new electron.Menu([
+      { label: 'File', submenu: [{ label: 'Open' }, { type: 'separator' }, { label: 'Print', enabled: false }] },
+      { label: 'Edit', submenu: [] },
+    ]));
+
+    await assert.rejects(clickMenuItem(app, ['Help']), /^Error: No menu item "Help". Available: File, Edit$/);
+    await assert.rejects(clickMenuItem(app, ['File', 'Save']), /No menu item "Save" under "File". Available: Open, Print$/);
+    await assert.rejects(clickMenuItem(app, ['Edit']), /"Edit" is a submenu, not an item/);
+    await assert.rejects(clickMenuItem(app, ['File', 'Print']), /"File > Print" is disabled/);
+    await assert.rejects(clickMenuItem(app, []), /Menu item path is empty/);
+    assert.deepEqual(electron.clicks, []);
+  });
+
+  it('closes a context menu after clicking one of its items', async () => {
+    const contextMenu = new electron.Menu([{ label: 'Copy' }]);
+    contextMenu.popup();
+    const trayMenu = new electron.Menu([{ label: 'Quit' }]);
+    new electron.Tray().setContextMenu(trayMenu);
+
+    assert.deepEqual(await clickMenuItem(app, ['copy'], { source: 'context' }), ['Copy']);
+    assert.deepEqual(await clickMenuItem(app, ['Quit'], { source: 'tray' }), ['Quit']);
+    assert.deepEqual(electron.clicks.map(click => click.path), ['Copy', 'Quit']);
+    assert.deepEqual(electron.closed, [contextMenu]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { BrowserContext, Route } from 'playwright';
+import { addRoute, listRoutes, clearRoutes, applyRoutes } from '../src/routes.js';
+
+type Handler = (route: Route) => Promise<void>;
+
+/**
+ * A context that routes requests the way Playwright does: the handler
+ * registered last for a matching glob answers the request
+ */
+function fakeContext() {
+  const routes: { url: string; handler: Handler }[] = [];
+  const context = {
+    route: async (url: string, handler: Handler) => {
+      routes.push({ url, handler });
+    },
+    unroute: async (url: string, handler: Handler) => {
+      const index = routes.findIndex(route => route.url === url && route.handler === handler);
+      if (index >= 0) {
+        routes.splice(index, 1);
+      }
+    },
+  } as unknown as BrowserContext;
+
+  /** Send a request through the routes and return what the route did with it */
+  const dispatch = async (url: string) => {
+    const calls: { method: string; arg: unknown }[] = [];
+    const route = {
+      fulfill: async (arg: unknown) => calls.push({ method: 'fulfill', arg }),
+      abort: async (arg: unknown) => calls.push({ method: 'abort', arg }),
+    } as unknown as Route;
+    const matching = [...routes].reverse().find(entry => new RegExp(`^${entry.url.replace(/\*+/g, '.*')}$`).test(url));
+    await matching?.handler(route);
+    return calls[0];
+  };
+
+  return { context, routes, dispatch };
+}
+
+describe('routes', () => {
+  let dir: string;
+  let body: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pw-electron-routes-'));
+    body = path.join(dir, 'users.json');
+    fs.writeFileSync(body, '[]');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await clearRoutes(fakeContext().context);
+  });
+
+  it('fulfills and aborts matching requests, counting hits', async () => {
+    const { context, dispatch } = fakeContext();
+    await addRoute(context, { url: '**/api/users', action: 'fulfill', fulfillPath: body, status: 201 });
+    await addRoute(context, { url: '**/ads/**', action: 'abort', errorCode: 'blockedbyclient' });
+
+    assert.deepEqual(await dispatch('https://example.com/api/users'), {
+      method: 'fulfill',
+      arg: { status: 201, contentType: undefined, path: body },
+    });
+    assert.deepEqual(await dispatch('https://example.com/ads/banner.js'), { method: 'abort', arg: 'blockedbyclient' });
+    assert.equal(await dispatch('https://example.com/other'), undefined);
+    assert.deepEqual(listRoutes().map(route => route.hits), [1, 1]);
+  });
+
+  it('lets the route added last win, and lists routes oldest first', async () => {
+    const { context, dispatch } = fakeContext();
+    const first = await addRoute(context, { url: '**/api/**', action: 'abort' });
+    const second = await addRoute(context, { url: '**/api/**', action: 'fulfill', status: 204 });
+
+    assert.deepEqual(await dispatch('https://example.com/api/users'), {
+      method: 'fulfill',
+      arg: { status: 204, contentType: undefined, body: '' },
+    });
+    assert.deepEqual(listRoutes().map(route => route.id), [first.id, second.id]);
+  });
+
+  it('clears the routes of one glob, or all of them', async () => {
+    const { context, routes } = fakeContext();
+    await addRoute(context, { url: '**/a', action: 'abort' });
+    await addRoute(context, { url: '**/b', action: 'abort' });
+    await addRoute(context, { url: '**/a', action: 'abort' });
+
+    assert.equal(await clearRoutes(context, '**/a'), 2);
+    assert.deepEqual(listRoutes().map(route => route.url), ['**/b']);
+    assert.deepEqual(routes.map(route => route.url), ['**/b']);
+    assert.equal(await clearRoutes(context), 1);
+    assert.deepEqual(listRoutes(), []);
+  });
+
+  it('installs the routes again, in order, on the context of a relaunched app', async () => {
+    const { context } = fakeContext();
+    await addRoute(context, { url: '**/api/**', action: 'abort' });
+    await addRoute(context, { url: '**/api/**', action: 'fulfill', status: 204 });
+
+    const relaunched = fakeContext();
+    await applyRoutes(relaunched.context);
+    assert.deepEqual(relaunched.routes.map(route => route.url), ['**/api/**', '**/api/**']);
+    assert.equal((await relaunched.dispatch('https://example.com/api/users')).method, 'fulfill');
+    assert.deepEqual(listRoutes().map(route => route.hits), [0, 1]);
+  });
+
+  it('rejects a fulfill file that does not exist', async () => {
+    await assert.rejects(
+      addRoute(fakeContext().context, { url: '**', action: 'fulfill', fulfillPath: path.join(dir, 'missing.json') }),
+      /No such file/
+    );
+  });
+});
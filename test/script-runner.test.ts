@@ -0,0 +1,224 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Page } from 'playwright';
+import {
+  splitImports,
+  runScriptModule,
+  runCancellable,
+  describeScriptError,
+  ScriptContext,
+} from '../src/script-runner.js';
+
+describe('splitImports', () => {
+  const cases: { name: string; source: string; imports: string; body: string }[] = [
+    {
+      name: 'a script without imports',
+      source: 'await window.click("button");\n',
+      imports: '',
+      body: 'await window.click("button");\n',
+    },
+    {
+      name: 'a shebang line',
+      source: '#!/usr/bin/env node\nimport fs from "fs";\nreturn fs;',
+      imports: '#!/usr/bin/env node\nimport fs from "fs";\n',
+      body: 'return fs;',
+    },
+    {
+      name: 'default, named, namespace and side-effect imports',
+      source: 'import a from "a"\nimport { b, c as d } from \'b\';\nimport * as e from "e";\nimport "f";\nrun();',
+      imports: 'import a from "a"\nimport { b, c as d } from \'b\';\nimport * as e from "e";\nimport "f";\n',
+      body: 'run();',
+    },
+    {
+      name: 'a multi-line import',
+      source: 'import {\n  one,\n  two,\n} from "./helpers.js";\none();',
+      imports: 'import {\n  one,\n  two,\n} from "./helpers.js";\n',
+      body: 'one();',
+    },
+    {
+      name: 'import attributes',
+      source: 'import data from "./data.json" with { type: "json" };\nimport old from "./old.json" assert { type: "json" };\nreturn data;',
+      imports: 'import data from "./data.json" with { type: "json" };\nimport old from "./old.json" assert { type: "json" };\n',
+      body: 'return data;',
+    },
+    {
+      name: 'comments between imports',
+      source: '// helpers\nimport a from "a";\n/* more\n   helpers */\nimport b from "b"; // trailing\nreturn a;',
+      imports: '// helpers\nimport a from "a";\n/* more\n   helpers */\nimport b from "b"; // trailing\n',
+      body: 'return a;',
+    },
+    {
+      name: 'a dynamic import() at the start of the body',
+      source: 'import a from "a";\nimport("b").then(b => b.run());',
+      imports: 'import a from "a";\n',
+      body: 'import("b").then(b => b.run());',
+    },
+    {
+      name: 'import.meta at the start of the body',
+      source: 'import.meta.resolve("a");\nimport b from "b";',
+      imports: '',
+      body: 'import.meta.resolve("a");\nimport b from "b";',
+    },
+    {
+      name: 'an identifier that starts with "import"',
+      source: 'importer.run();',
+      imports: '',
+      body: 'importer.run();',
+    },
+  ];
+
+  for (const { name, source, imports, body } of cases) {
+    it(`handles ${name}`, () => {
+      assert.deepEqual(splitImports(source), { imports, body });
+    });
+  }
+});
+
+describe('runScriptModule', () => {
+  let dir: string;
+  const context = { app: {}, window: {} as Page, ctx: {} } as ScriptContext;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pw-electron-script-'));
+    fs.writeFileSync(path.join(dir, 'data.json'), '{ "value": 42 }');
+    fs.writeFileSync(path.join(dir, 'helpers.mjs'), 'export const double = n => n * 2;\n');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, source: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, source);
+    return file;
+  };
+
+  it('resolves imports from the script directory and returns the result', async () => {
+    const file = write('imports.mjs', [
+      '#!/usr/bin/env node',
+      '// Helpers',
+      'import {',
+      '  double,',
+      '} from "./helpers.mjs";',
+      '/* data */ import data from "./data.json" with { type: "json" };',
+      'const { sep } = await import("node:path");',
+      'return [double(data.value), sep];',
+    ].join('\n'));
+    assert.deepEqual(await runScriptModule({ filename: file }, context), [84, path.sep]);
+  });
+
+  it('reports errors at the script line they were thrown from', async () => {
+    const file = write('throws.mjs', [
+      '#!/usr/bin/env node',
+      'import { double } from "./helpers.mjs";',
+      '',
+      'import data from "./data.json" with { type: "json" };',
+      'const value = double(data.value);',
+      'throw new Error(`boom ${value}`);',
+    ].join('\n'));
+    const error = await runScriptModule({ filename: file }, context).then(() => null, (error: unknown) => error);
+    const described = describeScriptError(error, file);
+    assert.match(described, /^Error: boom 84\n/);
+    assert.ok(described.includes(`${file}:6:`), described);
+    assert.ok(!described.includes('.pw-electron-'), described);
+  });
+
+  it('reports TypeScript errors at their script line', async () => {
+    const file = write('throws.ts', [
+      'import { double } from "./helpers.mjs";',
+      'const value: number = double(21);',
+      'throw new Error(`typed ${value}`);',
+    ].join('\n'));
+    const error = await runScriptModule({ filename: file }, context).then(() => null, (error: unknown) => error);
+    assert.ok(describeScriptError(error, file).includes(`${file}:3:`), describeScriptError(error, file));
+  });
+
+  it('leaves nothing next to the script', async () => {
+    const file = write('clean.mjs', 'return 1;');
+    await runScriptModule({ filename: file }, context);
+    assert.deepEqual(fs.readdirSync(dir).filter(name => name.startsWith('.')), []);
+  });
+});
+
+describe('runCancellable', () => {
+  class FakeLocator {
+    clicks = 0;
+    async click() {
+      this.clicks++;
+    }
+  }
+  class FakePage {
+    locators: FakeLocator[] = [];
+    locator() {
+      const locator = new FakeLocator();
+      this.locators.push(locator);
+      return locator;
+    }
+    async waitForTimeout(ms: number) {
+      await new Promise(resolve => setTimeout(resolve, ms));
+    }
+  }
+
+  it('returns the result of a script that is not cancelled', async () => {
+    const page = new FakePage();
+    const context = { app: {}, window: page as unknown as Page, ctx: {} } as ScriptContext;
+    const result = await runCancellable(async ({ window }) => {
+      await window.locator('button').click();
+      return window;
+    }, context, new AbortController().signal);
+    assert.equal(result, page);
+    assert.equal(page.locators[0].clicks, 1);
+  });
+
+  it('stops a cancelled script at its next call on an object it got from window or ctx', async () => {
+    const page = new FakePage();
+    const ctx: Record<string, unknown> = { stored: new FakeLocator() };
+    const context = { app: {}, window: page as unknown as Page, ctx } as ScriptContext;
+    const controller = new AbortController();
+    let script: Promise<unknown> | undefined;
+
+    const result = runCancellable(({ window, ctx }) => {
+      script = (async () => {
+        const locator = window.locator('button');
+        ctx!.kept = locator;
+        await window.waitForTimeout(20);
+        await (ctx!.stored as FakeLocator).click();
+      })();
+      return script;
+    }, context, controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await assert.rejects(result, /cancelled/);
+    await assert.rejects(script!, /cancelled/);
+    assert.equal((ctx.stored as FakeLocator).clicks, 0);
+    // Objects kept on ctx are stored unwrapped, so later scripts can still use them
+    assert.ok(ctx.kept instanceof FakeLocator);
+    await (ctx.kept as FakeLocator).click();
+    assert.equal((ctx.kept as FakeLocator).clicks, 1);
+  });
+});
+
+describe('describeScriptError', () => {
+  it('keeps the message and only the frames in the script', () => {
+    const error = new Error('failed');
+    error.stack = [
+      'Error: failed',
+      '    at run (/work/test.mjs:3:7)',
+      '    at internal (/app/node_modules/playwright/lib/x.js:1:1)',
+      '    at /work/test.mjs:9:1',
+    ].join('\n');
+    assert.equal(
+      describeScriptError(error, '/work/test.mjs'),
+      'Error: failed\n    at run (/work/test.mjs:3:7)\n    at /work/test.mjs:9:1'
+    );
+  });
+
+  it('stringifies values that are not errors', () => {
+    assert.equal(describeScriptError('plain', '/work/test.mjs'), 'plain');
+    assert.equal(describeScriptError(undefined, '/work/test.mjs'), 'undefined');
+  });
+});
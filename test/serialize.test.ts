@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { serializeResult, reviveResult } from '../src/serialize.js';
+
+describe('serializeResult', () => {
+  it('keeps plain JSON values as they are', async () => {
+    const value = { name: 'app', count: 3, ok: true, tags: ['a', 'b'], nested: { empty: null } };
+    assert.deepEqual(await serializeResult(value), value);
+  });
+
+  it('tags values JSON cannot represent', async () => {
+    assert.deepEqual(await serializeResult(undefined), { $type: 'undefined' });
+    assert.deepEqual(await serializeResult(NaN), { $type: 'number', value: 'NaN' });
+    assert.deepEqual(await serializeResult(-0), { $type: 'number', value: '-0' });
+    assert.deepEqual(await serializeResult(10n), { $type: 'bigint', value: '10' });
+    assert.deepEqual(await serializeResult(Symbol('id')), { $type: 'symbol', description: 'id' });
+    assert.deepEqual(await serializeResult(function load() {}), { $type: 'function', name: 'load' });
+    assert.deepEqual(await serializeResult(new Date(0)), { $type: 'date', value: '1970-01-01T00:00:00.000Z' });
+    assert.deepEqual(await serializeResult(/a+/g), { $type: 'regexp', source: 'a+', flags: 'g' });
+    assert.deepEqual(await serializeResult(Buffer.from('hi')), { $type: 'buffer', base64: 'aGk=' });
+  });
+
+  it('encodes maps, sets and errors', async () => {
+    assert.deepEqual(await serializeResult(new Map([['a', 1]])), { $type: 'map', entries: [['a', 1]] });
+    assert.deepEqual(await serializeResult(new Set([1, 2])), { $type: 'set', values: [1, 2] });
+    const error = await serializeResult(new TypeError('bad')) as Record<string, unknown>;
+    assert.equal(error.$type, 'error');
+    assert.equal(error.name, 'TypeError');
+    assert.equal(error.message, 'bad');
+  });
+
+  it('marks circular references with their path', async () => {
+    const value: Record<string, unknown> = { list: [] };
+    (value.list as unknown[]).push(value);
+    assert.deepEqual(await serializeResult(value), { list: [{ $type: 'circular', path: '$' }] });
+  });
+
+  it('does not mistake an object seen twice for a circular reference', async () => {
+    const shared = { id: 1 };
+    assert.deepEqual(await serializeResult([shared, shared]), [{ id: 1 }, { id: 1 }]);
+  });
+
+  it('escapes a user-supplied $type key', async () => {
+    assert.deepEqual(await serializeResult({ $type: 'date' }), { $type: 'object', value: { $type: 'date' } });
+  });
+
+  it('truncates deeply nested values', async () => {
+    let value: Record<string, unknown> = {};
+    const root = value;
+    for (let i = 0; i < 40; i++) {
+      value.next = {};
+      value = value.next as Record<string, unknown>;
+    }
+    let encoded = await serializeResult(root) as Record<string, unknown>;
+    for (let i = 0; i < 32; i++) {
+      encoded = encoded.next as Record<string, unknown>;
+    }
+    assert.deepEqual(encoded, { $type: 'truncated', className: 'Object' });
+  });
+});
+
+describe('reviveResult', () => {
+  it('recreates the values serializeResult encodes', async () => {
+    const value = {
+      big: 10n,
+      when: new Date(0),
+      lookup: new Map([['a', new Set([1])]]),
+      missing: undefined,
+      bytes: Buffer.from('hi'),
+    };
+    assert.deepEqual(reviveResult(await serializeResult(value)), value);
+  });
+
+  it('unwraps escaped objects', async () => {
+    assert.deepEqual(reviveResult(await serializeResult({ $type: 'date' })), { $type: 'date' });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveSessionName, DEFAULT_SESSION_NAME } from '../src/session.js';
+
+describe('resolveSessionName', () => {
+  let saved: string | undefined;
+
+  beforeEach(() => {
+    saved = process.env.PW_ELECTRON_SESSION;
+    delete process.env.PW_ELECTRON_SESSION;
+  });
+
+  afterEach(() => {
+    if (saved === undefined) {
+      delete process.env.PW_ELECTRON_SESSION;
+    } else {
+      process.env.PW_ELECTRON_SESSION = saved;
+    }
+  });
+
+  it('falls back to PW_ELECTRON_SESSION, then the default', () => {
+    assert.equal(resolveSessionName(), DEFAULT_SESSION_NAME);
+    process.env.PW_ELECTRON_SESSION = 'from-env';
+    assert.equal(resolveSessionName(), 'from-env');
+    assert.equal(resolveSessionName('given'), 'given');
+  });
+
+  it('accepts letters, digits, dots, dashes and underscores', () => {
+    assert.equal(resolveSessionName('app_2.staging-1'), 'app_2.staging-1');
+  });
+
+  it('rejects names that could escape the sessions directory', () => {
+    for (const name of ['.', '..', '../other', 'a/b', 'a\\b', 'with space', 'ünicode']) {
+      assert.throws(() => resolveSessionName(name), /Invalid session name/);
+    }
+  });
+
+  it('validates a name taken from PW_ELECTRON_SESSION', () => {
+    process.env.PW_ELECTRON_SESSION = '../escape';
+    assert.throws(() => resolveSessionName(), /Invalid session name "..\/escape"/);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Page } from 'playwright';
+import { parseAriaSnapshot, filterInteresting, formatSnapshotYaml, captureSnapshot } from '../src/snapshot.js';
+
+const YAML = `- banner:
+  - heading "Settings" [level=1]
+- main:
+  - paragraph: Choose your options
+  - checkbox "Remember me" [checked]
+  - link "Help":
+    - /url: https://example.com/help
+  - button "Save" [disabled]
+  - text: "Last saved: never"`;
+
+describe('parseAriaSnapshot', () => {
+  it('parses roles, names, states, text and props', () => {
+    assert.deepEqual(parseAriaSnapshot(YAML), [
+      { role: 'banner', children: [{ role: 'heading', name: 'Settings', states: { level: 1 } }] },
+      {
+        role: 'main',
+        children: [
+          { role: 'paragraph', text: 'Choose your options' },
+          { role: 'checkbox', name: 'Remember me', states: { checked: true } },
+          { role: 'link', name: 'Help', props: { url: 'https://example.com/help' } },
+          { role: 'button', name: 'Save', states: { disabled: true } },
+          { role: 'text', text: 'Last saved: never' },
+        ],
+      },
+    ]);
+  });
+
+  it('unquotes single-quoted keys and escaped names', () => {
+    assert.deepEqual(parseAriaSnapshot(`- 'button "Say \\"hi\\"" [pressed=mixed]'`), [
+      { role: 'button', name: 'Say "hi"', states: { pressed: 'mixed' } },
+    ]);
+  });
+
+  it('ignores lines that are not entries', () => {
+    assert.deepEqual(parseAriaSnapshot('\n# comment\n- button "Ok"\n'), [{ role: 'button', name: 'Ok' }]);
+  });
+});
+
+describe('filterInteresting', () => {
+  it('keeps interactive elements, headings and landmarks that contain them', () => {
+    assert.deepEqual(filterInteresting(parseAriaSnapshot(YAML)), [
+      { role: 'banner', children: [{ role: 'heading', name: 'Settings', states: { level: 1 } }] },
+      {
+        role: 'main',
+        children: [
+          { role: 'checkbox', name: 'Remember me', states: { checked: true } },
+          { role: 'link', name: 'Help', props: { url: 'https://example.com/help' } },
+          { role: 'button', name: 'Save', states: { disabled: true } },
+        ],
+      },
+    ]);
+  });
+
+  it('drops unnamed landmarks without interesting content', () => {
+    assert.deepEqual(filterInteresting(parseAriaSnapshot('- navigation:\n  - paragraph: Hi')), []);
+  });
+});
+
+describe('formatSnapshotYaml', () => {
+  it('round-trips through parseAriaSnapshot', () => {
+    const nodes = parseAriaSnapshot(YAML);
+    assert.deepEqual(parseAriaSnapshot(formatSnapshotYaml(nodes)), nodes);
+  });
+
+  it('appends suggested locators as comments', () => {
+    const yaml = formatSnapshotYaml([{ role: 'button', name: 'Save', locator: 'getByRole(\'button\', { name: \'Save\' })' }]);
+    assert.equal(yaml, '- button "Save"  # getByRole(\'button\', { name: \'Save\' })');
+  });
+
+  it('quotes text that would not parse as a plain scalar', () => {
+    assert.equal(formatSnapshotYaml([{ role: 'text', text: '42' }]), '- text: "42"');
+    assert.equal(formatSnapshotYaml([{ role: 'text', text: 'key: value' }]), '- text: "key: value"');
+  });
+});
+
+describe('captureSnapshot', () => {
+  /**
+   * A window whose `selector` element has the given aria snapshot. `rootRole`
+   * is the role of that element itself, if it has one.
+   */
+  const fakeWindow = (ariaSnapshot: string, rootRole?: string) => {
+    const empty = { evaluateAll: async () => [] };
+    const root = {
+      count: async () => 1,
+      first: () => root,
+      ariaSnapshot: async () => ariaSnapshot,
+      getByRole: () => empty,
+      and: (other: { role: string }) => ({ count: async () => (other.role === rootRole ? 1 : 0) }),
+    };
+    return {
+      locator: () => root,
+      getByRole: (role: string) => ({ role }),
+      url: () => 'file:///app/index.html',
+      title: async () => 'App',
+    } as unknown as Page;
+  };
+
+  it('locates an interactive root by its selector', async () => {
+    const snapshot = await captureSnapshot(fakeWindow('- button "Save"', 'button'), { selector: '#save' });
+    assert.equal(snapshot.nodes[0].locator, 'locator(\'#save\').first()');
+  });
+
+  it('locates an element inside the root relative to the root', async () => {
+    const snapshot = await captureSnapshot(fakeWindow('- button "Save"'), { selector: '#toolbar' });
+    assert.equal(snapshot.nodes[0].locator, 'locator(\'#toolbar\').first().getByRole(\'button\', { name: \'Save\' })');
+  });
+});
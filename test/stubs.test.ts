@@ -0,0 +1,116 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ElectronApplication } from 'playwright';
+import { stubDialog, stubShell, listStubs, clearStubs } from '../src/stubs.js';
+
+/**
+ * The parts of the `electron` module the stubs patch, with "real" functions
+ * that would show a dialog or open a browser
+ */
+function fakeElectron() {
+  const real = (name: string) => () => {
+    throw new Error(`The real ${name} was called`);
+  };
+  return {
+    dialog: {
+      showOpenDialog: real('showOpenDialog'),
+      showOpenDialogSync: real('showOpenDialogSync'),
+      showSaveDialog: real('showSaveDialog'),
+      showSaveDialogSync: real('showSaveDialogSync'),
+      showMessageBox: real('showMessageBox'),
+      showMessageBoxSync: real('showMessageBoxSync'),
+      showErrorBox: real('showErrorBox'),
+    } as Record<string, (...args: unknown[]) => unknown>,
+    shell: {
+      openExternal: real('openExternal'),
+    } as Record<string, (...args: unknown[]) => unknown>,
+  };
+}
+
+describe('stubs', () => {
+  let electron: ReturnType<typeof fakeElectron>;
+  let app: ElectronApplication;
+  // A BrowserWindow passed as a dialog's parent
+  const window = { id: 3, webContents: {} };
+
+  beforeEach(() => {
+    electron = fakeElectron();
+    // Runs the main-process functions right here, against the fake module
+    app = {
+      evaluate: async (fn: (electron: unknown, arg: unknown) => unknown, arg: unknown) => fn(electron, arg),
+    } as unknown as ElectronApplication;
+  });
+
+  afterEach(async () => {
+    await clearStubs(app);
+  });
+
+  it('answers open and save dialogs with the stubbed paths, or cancels them', async () => {
+    await stubDialog(app, { openPaths: ['/tmp/a.txt'] });
+    assert.deepEqual(await electron.dialog.showOpenDialog(window, { properties: ['openFile'] }), {
+      canceled: false,
+      filePaths: ['/tmp/a.txt'],
+    });
+    assert.deepEqual(electron.dialog.showOpenDialogSync({}), ['/tmp/a.txt']);
+    assert.deepEqual(await electron.dialog.showSaveDialog({}), { canceled: true, filePath: '' });
+    assert.equal(electron.dialog.showSaveDialogSync({}), undefined);
+  });
+
+  it('answers message boxes with the stubbed response, else their cancelId or 0', async () => {
+    await stubDialog(app, {});
+    assert.deepEqual(await electron.dialog.showMessageBox(window, { buttons: ['OK', 'Cancel'], cancelId: 1 }), {
+      response: 1,
+      checkboxChecked: false,
+    });
+    assert.equal(electron.dialog.showMessageBoxSync({ buttons: ['OK'] }), 0);
+
+    await stubDialog(app, { messageBoxResponse: 2 });
+    assert.equal(electron.dialog.showMessageBoxSync({ cancelId: 1 }), 2);
+    assert.equal(electron.dialog.showErrorBox('Oops', 'Something failed'), undefined);
+  });
+
+  it('records every call with its arguments and result, replacing windows by their id', async () => {
+    await stubDialog(app, { savePath: '/tmp/out.pdf' });
+    await electron.dialog.showSaveDialog(window, { defaultPath: 'out.pdf' });
+    electron.dialog.showErrorBox('Oops', 'Something failed');
+
+    const state = await listStubs(app);
+    assert.deepEqual(state.dialog, { savePath: '/tmp/out.pdf' });
+    assert.equal(state.shell, undefined);
+    assert.deepEqual(state.calls.map(({ timestamp, ...call }) => {
+      assert.ok(!isNaN(Date.parse(timestamp)));
+      return call;
+    }), [
+      {
+        method: 'dialog.showSaveDialog',
+        args: [{ window: 3 }, { defaultPath: 'out.pdf' }],
+        result: { canceled: false, filePath: '/tmp/out.pdf' },
+      },
+      { method: 'dialog.showErrorBox', args: ['Oops', 'Something failed'], result: null },
+    ]);
+  });
+
+  it('records shell.openExternal calls, and restores it when capture is turned off', async () => {
+    const original = electron.shell.openExternal;
+    await stubShell(app, { captureOpenExternal: true });
+    await electron.shell.openExternal('https://example.com/docs');
+
+    const state = await listStubs(app);
+    assert.deepEqual(state.shell, { captureOpenExternal: true });
+    assert.deepEqual(state.calls.map(call => [call.method, call.args]), [['shell.openExternal', ['https://example.com/docs']]]);
+
+    await stubShell(app, { captureOpenExternal: false });
+    assert.equal(electron.shell.openExternal, original);
+  });
+
+  it('restores the real functions and forgets the calls when cleared', async () => {
+    const original = electron.dialog.showOpenDialog;
+    await stubDialog(app, {});
+    await stubDialog(app, { openPaths: ['/tmp/b.txt'] });
+    await electron.dialog.showOpenDialog({});
+
+    await clearStubs(app);
+    assert.equal(electron.dialog.showOpenDialog, original);
+    assert.deepEqual(await listStubs(app), { dialog: undefined, shell: undefined, calls: [] });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import type { ElectronApplication } from 'playwright';
+import { findTestFiles, runTests, formatJUnitReport, TestReport } from '../src/test-runner.js';
+
+describe('findTestFiles', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pw-electron-test-'));
+    for (const file of [
+      'login.test.ts',
+      'settings.test.mjs',
+      'notes.md',
+      'nested/deep/menu.test.js',
+      'nested/helper.cjs',
+      'nested/dialog.spec.cts',
+      'node_modules/pkg/index.js',
+      '.hidden/skip.test.ts',
+    ]) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), '');
+    }
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const relative = (files: string[]) => files.map(file => path.relative(dir, file).split(path.sep).join('/'));
+
+  it('finds test and spec files under a directory, skipping helpers, node_modules and hidden entries', () => {
+    assert.deepEqual(relative(findTestFiles([dir])), [
+      'login.test.ts',
+      'nested/deep/menu.test.js',
+      'nested/dialog.spec.cts',
+      'settings.test.mjs',
+    ]);
+  });
+
+  it('matches ** across directories, including none', () => {
+    assert.deepEqual(relative(findTestFiles([`${dir}/**/*.test.*`])), [
+      'login.test.ts',
+      'nested/deep/menu.test.js',
+      'settings.test.mjs',
+    ]);
+  });
+
+  it('matches * and ? within a single directory', () => {
+    assert.deepEqual(relative(findTestFiles([`${dir}/*.test.?s`])), ['login.test.ts']);
+    assert.deepEqual(relative(findTestFiles([`${dir}/nested/*`])), ['nested/dialog.spec.cts', 'nested/helper.cjs']);
+  });
+
+  it('expands {a,b} alternatives', () => {
+    assert.deepEqual(relative(findTestFiles([`${dir}/{login,settings}.test.*`])), [
+      'login.test.ts',
+      'settings.test.mjs',
+    ]);
+  });
+
+  it('takes a file as it is and drops duplicates', () => {
+    const file = path.join(dir, 'notes.md');
+    assert.deepEqual(relative(findTestFiles([file, file, `${dir}/*.md`])), ['notes.md']);
+  });
+
+  it('throws for a path that does not exist', () => {
+    assert.throws(() => findTestFiles([path.join(dir, 'missing')]), /No such file or directory/);
+  });
+
+  it('returns nothing for a glob without matches', () => {
+    assert.deepEqual(findTestFiles([`${dir}/missing/**/*.ts`]), []);
+  });
+});
+
+/**
+ * A stand-in for a launched app with one window, recording its launches
+ */
+function fakeLauncher() {
+  const launched: { id: number; closed: boolean }[] = [];
+  const launchApp = async () => {
+    const record = { id: launched.length + 1, closed: false };
+    launched.push(record);
+    const app = new EventEmitter() as EventEmitter & Record<string, unknown>;
+    const window = {
+      isClosed: () => false,
+      waitForLoadState: async () => undefined,
+      title: async () => `app ${record.id}`,
+    };
+    app.firstWindow = async () => window;
+    app.windows = () => [window];
+    app.close = async () => {
+      record.closed = true;
+      app.emit('close');
+    };
+    return app as unknown as ElectronApplication;
+  };
+  return { launched, launchApp };
+}
+
+describe('runTests', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pw-electron-run-'));
+    fs.writeFileSync(path.join(dir, 'a-pass.test.mjs'), 'ctx.title = await window.title();\n');
+    fs.writeFileSync(path.join(dir, 'b-fail.test.mjs'), 'throw new Error(`failed on ${await window.title()}`);\n');
+    // Keeps running after its timeout without touching app or window
+    fs.writeFileSync(path.join(dir, 'c-stuck.test.mjs'), 'await new Promise(resolve => setTimeout(resolve, 5500));\n');
+    fs.writeFileSync(path.join(dir, 'd-pass.test.mjs'), 'if (!(await window.title())) throw new Error("no window");\n');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('shares one app between tests and retries', async () => {
+    const { launched, launchApp } = fakeLauncher();
+    const report = await runTests({
+      patterns: [`${dir}/{a-pass,b-fail}.test.mjs`],
+      launch: { executablePath: 'app' },
+      launchApp,
+      retries: 1,
+    });
+    assert.equal(launched.length, 1);
+    assert.ok(launched[0].closed);
+    assert.deepEqual(report.tests.map(test => [test.status, test.attempts.length]), [['passed', 1], ['failed', 2]]);
+    assert.match(report.tests[1].attempts[1].error ?? '', /failed on app 1/);
+  });
+
+  it('launches a fresh app for every attempt with isolate', async () => {
+    const { launched, launchApp } = fakeLauncher();
+    const report = await runTests({
+      patterns: [`${dir}/{a-pass,b-fail}.test.mjs`],
+      launch: { executablePath: 'app' },
+      launchApp,
+      isolate: true,
+      retries: 1,
+    });
+    assert.equal(launched.length, 3);
+    assert.ok(launched.every(app => app.closed));
+    assert.match(report.tests[1].attempts[1].error ?? '', /failed on app 3/);
+  });
+
+  it('relaunches the shared app when a timed-out test keeps running', async () => {
+    const { launched, launchApp } = fakeLauncher();
+    const report = await runTests({
+      patterns: [`${dir}/{c-stuck,d-pass}.test.mjs`],
+      launch: { executablePath: 'app' },
+      launchApp,
+      timeout: 50,
+    });
+    assert.equal(launched.length, 2);
+    assert.match(report.tests[0].attempts[0].error ?? '', /timed out after 50ms[\s\S]*relaunched/);
+    assert.equal(report.tests[1].status, 'passed');
+  });
+});
+
+describe('formatJUnitReport', () => {
+  const report: TestReport = {
+    startedAt: '2024-01-01T00:00:00.000Z',
+    durationMs: 1500,
+    appPath: '/apps/<my app>',
+    passed: 1,
+    failed: 1,
+    flaky: 1,
+    tests: [
+      { name: 'ok.test.js', file: '/t/ok.test.js', status: 'passed', durationMs: 250, attempts: [{ status: 'passed', durationMs: 250 }] },
+      {
+        name: 'flaky.test.js',
+        file: '/t/flaky.test.js',
+        status: 'flaky',
+        durationMs: 500,
+        attempts: [
+          { status: 'failed', durationMs: 300, error: 'Error: first try', screenshot: 'out/flaky-attempt1.png' },
+          { status: 'passed', durationMs: 200 },
+        ],
+      },
+      {
+        name: 'bad "quotes" & <tags>.test.js',
+        file: '/t/bad.test.js',
+        status: 'failed',
+        durationMs: 750,
+        attempts: [{ status: 'failed', durationMs: 750, error: 'Error: expected <b> & "c"\x07\n    at line 2' }],
+      },
+    ],
+  };
+  const xml = formatJUnitReport(report);
+
+  it('writes totals, with nothing skipped', () => {
+    assert.match(xml, /<testsuites name="pw-electron" tests="3" failures="1" time="1.500">/);
+    assert.match(xml, /<testsuite name="\/apps\/&lt;my app&gt;" tests="3" failures="1" errors="0" skipped="0"/);
+    assert.doesNotMatch(xml, /<skipped/);
+  });
+
+  it('adds a failure element only for failed tests, with the first line as its message', () => {
+    assert.equal(xml.match(/<failure /g)?.length, 1);
+    assert.match(
+      xml,
+      /<failure message="Error: expected &lt;b&gt; &amp; &quot;c&quot;">Error: expected &lt;b&gt; &amp; &quot;c&quot;\n {4}at line 2<\/failure>/
+    );
+  });
+
+  it('escapes names and strips control characters', () => {
+    assert.match(xml, /<testcase name="bad &quot;quotes&quot; &amp; &lt;tags&gt;.test.js"/);
+    assert.ok(!xml.includes('\x07'));
+  });
+
+  it('lists attempts, the errors of flaky ones and screenshots as attachments', () => {
+    assert.match(
+      xml,
+      /<system-out>Attempt 1: failed in 300ms\nError: first try\n\[\[ATTACHMENT\|out\/flaky-attempt1.png\]\]\nAttempt 2: passed in 200ms<\/system-out>/
+    );
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseScreenSize, needsVirtualDisplay } from '../src/xvfb.js';
+
+describe('parseScreenSize', () => {
+  const valid: [string, string][] = [
+    ['1280x720', '1280x720x24'],
+    ['1920x1080x16', '1920x1080x16'],
+    [' 800x600 ', '800x600x24'],
+  ];
+  for (const [size, expected] of valid) {
+    it(`parses ${JSON.stringify(size)}`, () => {
+      assert.equal(parseScreenSize(size), expected);
+    });
+  }
+
+  for (const size of ['', '1280', '1280x', '1280*720', '1280x720x', '-1x720', '1280.5x720', 'axb', '1x2x3x4']) {
+    it(`rejects ${JSON.stringify(size)}`, () => {
+      assert.throws(() => parseScreenSize(size), /Invalid screen size/);
+    });
+  }
+});
+
+describe('needsVirtualDisplay', () => {
+  const onLinux = process.platform === 'linux';
+  const cases: [NodeJS.ProcessEnv, boolean][] = [
+    [{}, onLinux],
+    [{ DISPLAY: ':0' }, false],
+    [{ WAYLAND_DISPLAY: 'wayland-0' }, false],
+  ];
+  for (const [env, expected] of cases) {
+    it(`is ${expected} with ${JSON.stringify(env)}`, () => {
+      assert.equal(needsVirtualDisplay(env), expected);
+    });
+  }
+});